@@ -0,0 +1,124 @@
+import { retry } from "@std/async/retry";
+
+/**
+ * The glue-backend credentials of the invocation a backend call is made on
+ * behalf of.
+ */
+export interface BackendAuth {
+  glueDeploymentId: string;
+  glueAuthHeader: string;
+}
+
+/** The body glue-backend expects when a delayed task is scheduled. */
+export interface DelayedTaskScheduleRequest {
+  data: unknown;
+  /** When the task should run, in milliseconds since the epoch. */
+  at: number;
+  idempotencyKey: string;
+  /**
+   * The W3C trace context of the span that scheduled the task. glue-backend
+   * sends it back as the `traceparent` header when the task runs, so the task's
+   * invocation continues the same trace.
+   */
+  traceparent?: string;
+}
+
+/**
+ * The calls the runtime makes to glue-backend on behalf of event handlers. The
+ * default implementation is {@link httpBackendClient}; tests and local
+ * development can substitute their own.
+ */
+export interface BackendClient {
+  /** Fetches the credential for the credential fetcher `type`/`label`. */
+  fetchCredential(auth: BackendAuth, type: string, label: string): Promise<unknown>;
+  /** Fetches the value of the secret fetcher `label`. */
+  fetchSecret(auth: BackendAuth, label: string): Promise<string>;
+  /** Schedules a run of the delayed task `label`. */
+  scheduleDelayedTask(
+    auth: BackendAuth,
+    label: string,
+    request: DelayedTaskScheduleRequest,
+  ): Promise<void>;
+}
+
+/**
+ * Makes a request to glue-backend's internal API. Connection errors and 5xx
+ * responses, which may be transient, are retried.
+ *
+ * @param failureMessage Prefix for the error thrown if the request fails.
+ */
+async function requestBackend(
+  apiServer: string | undefined,
+  auth: BackendAuth,
+  path: string,
+  failureMessage: string,
+  init?: { method: string; body: string },
+): Promise<Response> {
+  const res = await retry(async () => {
+    const res = await fetch(
+      `${apiServer}/glueInternal/deployments/${encodeURIComponent(auth.glueDeploymentId)}${path}`,
+      {
+        method: init?.method,
+        headers: init
+          ? { "Authorization": auth.glueAuthHeader, "Content-Type": "application/json" }
+          : { "Authorization": auth.glueAuthHeader },
+        body: init?.body,
+      },
+    );
+    if (res.status >= 500 && res.status < 600) {
+      throw new Error(`${failureMessage}: ${res.status} ${res.statusText}`);
+    }
+    return res;
+  });
+  if (!res.ok) {
+    throw new Error(`${failureMessage}: ${res.status} ${res.statusText}`);
+  }
+  return res;
+}
+
+/**
+ * Creates a client that talks to glue-backend's internal API over HTTP.
+ *
+ * @param getApiServer Returns the base URL of the API server. It's called for
+ * every request.
+ */
+export function createHttpBackendClient(getApiServer: () => string | undefined): BackendClient {
+  return {
+    async fetchCredential(auth, type, label) {
+      const res = await requestBackend(
+        getApiServer(),
+        auth,
+        `/accountInjections/${encodeURIComponent(type)}/${encodeURIComponent(label)}`,
+        "Failed to fetch credential",
+      );
+      return await res.json();
+    },
+
+    async fetchSecret(auth, label) {
+      const res = await requestBackend(
+        getApiServer(),
+        auth,
+        `/secretInjections/${encodeURIComponent(label)}`,
+        "Failed to fetch secret",
+      );
+      const body = await res.json() as { value: string };
+      return body.value;
+    },
+
+    async scheduleDelayedTask(auth, label, request) {
+      const res = await requestBackend(
+        getApiServer(),
+        auth,
+        `/delayedTasks/${encodeURIComponent(label)}/schedule`,
+        "Failed to schedule delayed task",
+        { method: "POST", body: JSON.stringify(request) },
+      );
+      await res.body?.cancel();
+    },
+  };
+}
+
+/** Talks to glue-backend at the `GLUE_API_SERVER` address. */
+export const httpBackendClient: BackendClient = createHttpBackendClient(() =>
+  Deno.env.get("GLUE_API_SERVER")
+);
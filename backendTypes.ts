@@ -31,6 +31,54 @@ export const TriggerEvent: z.ZodType<TriggerEvent> = z.object({
   data: z.unknown(),
 });
 
+/** The body of a `/__glue__/triggerEventBatch` request. */
+export type TriggerEventBatch = TriggerEvent[];
+
+export const TriggerEventBatch: z.ZodType<TriggerEventBatch> = z.array(TriggerEvent);
+
+/**
+ * Identifies the callback of a delayed task, so that registrations of two
+ * deployments can be compared to find tasks whose label now refers to a
+ * different callback.
+ */
+export interface DelayedTaskFingerprint {
+  /** SHA-256 hash of the callback's source code, hex-encoded. */
+  sourceHash: string;
+  /** The callback's function name, if it has one. */
+  name?: string;
+}
+
+export const DelayedTaskFingerprint: z.ZodType<DelayedTaskFingerprint> = z.object({
+  sourceHash: z.string(),
+  name: z.string().optional(),
+});
+
+/**
+ * What happens to the events of a paused trigger: `drop` discards them, and
+ * `buffer` keeps them to run once the trigger is resumed.
+ */
+export type TriggerPauseMode = "drop" | "buffer";
+
+export const TriggerPauseMode: z.ZodType<TriggerPauseMode> = z.enum(["drop", "buffer"]);
+
+/** The state of a paused trigger. */
+export interface TriggerPauseStatus {
+  mode: TriggerPauseMode;
+  /** When the trigger was paused, in milliseconds since the epoch. */
+  since: number;
+  /** How many events are buffered to run once the trigger is resumed. */
+  bufferedEvents: number;
+  /** How many events were dropped while the trigger was paused. */
+  droppedEvents: number;
+}
+
+export const TriggerPauseStatus: z.ZodType<TriggerPauseStatus> = z.object({
+  mode: TriggerPauseMode,
+  since: z.number(),
+  bufferedEvents: z.number(),
+  droppedEvents: z.number(),
+});
+
 export interface TriggerRegistration {
   /** The event source type this trigger is registered for */
   type: string;
@@ -41,20 +89,34 @@ export interface TriggerRegistration {
   label: string;
   /** Event source specific configuration (varies by type) */
   config?: CommonTriggerWithAccountBackendConfig & Record<string, unknown>;
+  /**
+   * Whether the handler processes events in batches. Events for it may be
+   * delivered together through `/__glue__/triggerEventBatch`, in which case the
+   * handler runs once for all of them.
+   */
+  batch?: boolean;
+  /** Identifies the callback of a delayed task. Only set for delayed tasks. */
+  fingerprint?: DelayedTaskFingerprint;
+  /** Set while the trigger is paused. */
+  paused?: TriggerPauseStatus;
 }
 
 export const TriggerRegistration: z.ZodType<TriggerRegistration> = z.object({
   type: z.string(),
   label: z.string(),
   config: CommonTriggerWithAccountBackendConfig.loose().optional(),
+  batch: z.boolean().optional(),
+  fingerprint: DelayedTaskFingerprint.optional(),
+  paused: TriggerPauseStatus.optional(),
 });
 
-export interface CredentialFetcherBackendConfig extends CommonCredentialFetcherOptions {
+export interface CredentialFetcherBackendConfig
+  extends Omit<CommonCredentialFetcherOptions, "label"> {
   scopes?: string[];
 }
 
 export const CredentialFetcherBackendConfig: z.ZodType<CredentialFetcherBackendConfig> =
-  CommonCredentialFetcherOptions.extend({
+  CommonCredentialFetcherOptions.omit({ label: true }).extend({
     scopes: z.array(z.string()).optional(),
   });
 
@@ -125,6 +187,110 @@ export const Registrations: z.ZodType<Registrations> = z.object({
   secretInjections: z.array(SecretInjectionRegistration).optional(),
 });
 
+/** The response of the runtime's `/__glue__/health` endpoint. */
+export interface RuntimeHealth {
+  /**
+   * `ok` if the runtime is accepting trigger events, or `shuttingDown` once it
+   * has started shutting down.
+   */
+  status: "ok" | "shuttingDown";
+}
+
+export const RuntimeHealth: z.ZodType<RuntimeHealth> = z.object({
+  status: z.enum(["ok", "shuttingDown"]),
+});
+
+/** The body of a `/__glue__/pauseTrigger` request. */
+export interface PauseTriggerRequest {
+  /** The label of the trigger to pause. */
+  label: string;
+  /** @default "drop" */
+  mode?: TriggerPauseMode;
+  /** How many events to buffer in `buffer` mode before dropping them. */
+  maxBufferedEvents?: number;
+}
+
+export const PauseTriggerRequest: z.ZodType<PauseTriggerRequest> = z.object({
+  label: z.string(),
+  mode: TriggerPauseMode.optional(),
+  maxBufferedEvents: z.number().int().nonnegative().optional(),
+});
+
+/** The body of a `/__glue__/resumeTrigger` request. */
+export interface ResumeTriggerRequest {
+  /** The label of the trigger to resume. */
+  label: string;
+  /** Discard the buffered events rather than running them. */
+  discardBuffered?: boolean;
+}
+
+export const ResumeTriggerRequest: z.ZodType<ResumeTriggerRequest> = z.object({
+  label: z.string(),
+  discardBuffered: z.boolean().optional(),
+});
+
+/** The response to a `/__glue__/resumeTrigger` request. */
+export interface ResumeTriggerResponse {
+  /** How many buffered events are being run, in the order they arrived. */
+  replayedEvents: number;
+}
+
+export const ResumeTriggerResponse: z.ZodType<ResumeTriggerResponse> = z.object({
+  replayedEvents: z.number(),
+});
+
+/** Summary of the most recent failed invocation. */
+export interface InvocationErrorSummary {
+  /** The trigger type of the failed invocation. */
+  type: string;
+  /** The trigger label of the failed invocation. */
+  label: string;
+  /** The first line of the error, usually its name and message. */
+  message: string;
+  /** When the invocation failed, in milliseconds since the epoch. */
+  timestamp: number;
+}
+
+export const InvocationErrorSummary: z.ZodType<InvocationErrorSummary> = z.object({
+  type: z.string(),
+  label: z.string(),
+  message: z.string(),
+  timestamp: z.number(),
+});
+
+/** The response of the runtime's `/__glue__/info` endpoint. */
+export interface RuntimeInfo {
+  /** The version of the `@streak-glue/runtime` package. */
+  runtimeVersion: string;
+  /** The version of Deno running the Glue. */
+  denoVersion: string;
+  /** How long the runtime process has been running, in milliseconds. */
+  uptimeMs: number;
+  /** How many trigger events are currently being handled. */
+  inFlightInvocations: number;
+  /** The number of registrations of each kind, by type. */
+  registrationCounts: {
+    triggers: Record<string, number>;
+    accountInjections: Record<string, number>;
+    secretInjections: number;
+  };
+  /** The most recent failed invocation, if any have failed. */
+  lastError?: InvocationErrorSummary;
+}
+
+export const RuntimeInfo: z.ZodType<RuntimeInfo> = z.object({
+  runtimeVersion: z.string(),
+  denoVersion: z.string(),
+  uptimeMs: z.number(),
+  inFlightInvocations: z.number(),
+  registrationCounts: z.object({
+    triggers: z.record(z.string(), z.number()),
+    accountInjections: z.record(z.string(), z.number()),
+    secretInjections: z.number(),
+  }),
+  lastError: InvocationErrorSummary.optional(),
+});
+
 // This is exported so we can implement new *TriggerBackendConfig types in
 // glue-backend first before moving them into glue-runtime.
 export { CommonTriggerBackendConfig } from "./common.ts";
@@ -132,6 +298,7 @@ export { CommonTriggerBackendConfig } from "./common.ts";
 /** Represents a credential using an access token */
 export interface AccessTokenCredential {
   accessToken: string;
+  /** When the access token expires, in milliseconds since the epoch. */
   expiresAt?: number;
 }
 
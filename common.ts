@@ -1,5 +1,93 @@
 import z from "zod";
 
+/**
+ * Controls how a failed handler is retried. Delays between attempts grow
+ * exponentially from `initialDelayMs` by `multiplier`, up to `maxDelayMs`.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of times the handler is run, including the first
+   * attempt.
+   * @default 5
+   */
+  maxAttempts?: number;
+  /**
+   * The delay before the first retry, in milliseconds.
+   * @default 1000
+   */
+  initialDelayMs?: number;
+  /**
+   * The longest delay between attempts, in milliseconds.
+   * @default 60000
+   */
+  maxDelayMs?: number;
+  /**
+   * The factor each delay is multiplied by for the next attempt.
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * How much of each delay is randomized, from 0 (none) to 1 (anywhere between
+   * zero and the full delay).
+   * @default 1
+   */
+  jitter?: number;
+  /**
+   * Decides whether a failed attempt should be retried. `attempt` is the
+   * 1-based number of the attempt that failed. If omitted, every error is
+   * retried.
+   *
+   * @example
+   * ```typescript
+   * // Only retry errors that aren't caused by the request itself.
+   * shouldRetry: (error) => !(error instanceof Stripe.errors.StripeInvalidRequestError)
+   * ```
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+// This explicit type is necessary to pass deno's missing-explicit-type lint.
+export const RetryPolicy: z.ZodType<RetryPolicy, RetryPolicy> = z.object({
+  maxAttempts: z.number().optional(),
+  initialDelayMs: z.number().optional(),
+  maxDelayMs: z.number().optional(),
+  multiplier: z.number().optional(),
+  jitter: z.number().optional(),
+  shouldRetry: z.custom<(error: unknown, attempt: number) => boolean>(
+    (value) => typeof value === "function",
+  ).optional(),
+});
+
+/**
+ * Controls how redelivered events are detected. See
+ * {@link CommonTriggerOptions.dedupe}.
+ */
+export interface DedupeOptions {
+  /**
+   * Returns the delivery id of an event. Events with the same key as an
+   * earlier event are dropped. Returning `undefined` lets the event through.
+   * Required for triggers without a built-in delivery id, such as GitHub and
+   * webhook triggers.
+   *
+   * @example
+   * ```typescript
+   * key: (event: WebhookEvent) => event.headers["x-delivery-id"]
+   * ```
+   */
+  key?(event: unknown): string | undefined;
+  /**
+   * How long a delivery id is remembered, in milliseconds.
+   * @default 3600000
+   */
+  windowMs?: number;
+}
+// This explicit type is necessary to pass deno's missing-explicit-type lint.
+export const DedupeOptions: z.ZodType<DedupeOptions, DedupeOptions> = z.object({
+  key: z.custom<(event: unknown) => string | undefined>(
+    (value) => typeof value === "function",
+  ).optional(),
+  windowMs: z.number().optional(),
+});
+
 /**
  * Common options available for all trigger event listeners.
  */
@@ -7,10 +95,56 @@ export interface CommonTriggerOptions {
   /** Description that appears for the trigger when configuring a Glue. */
   description?: string;
   /**
-   * Whether the trigger should retry on failure.
+   * A stable identifier for this trigger within the Glue. Glue ties the
+   * configuration made for a trigger (such as a webhook's URL) to its label. If
+   * omitted, a label is assigned automatically based on registration order,
+   * which changes when other registrations are added above this one.
+   *
+   * Labels must start with a letter, may only contain letters, digits, `-` and
+   * `_`, can be at most 64 characters long, and must be unique within the Glue.
+   * Labels of the form `task-N` are reserved for the automatic labels of
+   * delayed tasks.
+   */
+  label?: string;
+  /**
+   * Whether the trigger should retry on failure. Pass `true` to retry every
+   * error with the default {@link RetryPolicy}, or a policy to control the
+   * number of attempts, the delays between them and which errors are retried.
+   * @default false
+   */
+  retryOnFailure?: boolean | RetryPolicy;
+  /**
+   * How long the handler may run, in milliseconds, before the invocation is
+   * aborted and reported as failed. When the timeout elapses, `glue.signal` is
+   * aborted so that requests the handler made with it are cancelled. If not
+   * set, the deployment-wide default from the `GLUE_HANDLER_TIMEOUT_MS`
+   * environment variable applies, if any.
+   */
+  timeoutMs?: number;
+  /**
+   * The most invocations of this trigger's handler that may run at once.
+   * Events that arrive while this many are running wait in a queue until one
+   * finishes. The deployment-wide `GLUE_MAX_CONCURRENCY` environment variable
+   * limits all handlers together in the same way.
+   */
+  maxConcurrency?: number;
+  /**
+   * How many events may wait for a slot when `maxConcurrency` handlers are
+   * already running. Events beyond this fail with a `QueueFullError`.
+   * @default 100
+   */
+  maxQueueLength?: number;
+  /**
+   * Whether to drop events that were already delivered, such as webhooks the
+   * sender redelivered. Pass `true` to use the trigger's built-in delivery id
+   * (Slack's `event_id`, or the event `id` of Stripe and Intercom events), or
+   * {@link DedupeOptions} to provide a key function or change how long ids
+   * are remembered. Ids of events whose handler failed are forgotten so that
+   * redeliveries of them run again. Ids are only remembered in memory, so a
+   * redelivery may still run after the Glue restarts.
    * @default false
    */
-  retryOnFailure?: boolean;
+  dedupe?: boolean | DedupeOptions;
 }
 // This explicit type is necessary to pass deno's missing-explicit-type lint. It
 // needs to be a ZodObject type instead of ZodType so the `.extend()` method is
@@ -19,11 +153,25 @@ export interface CommonTriggerOptions {
 export const CommonTriggerOptions:
   & z.ZodObject<{
     description: z.ZodOptional<z.ZodString>;
-    retryOnFailure: z.ZodOptional<z.ZodBoolean>;
+    label: z.ZodOptional<z.ZodString>;
+    retryOnFailure: z.ZodOptional<
+      z.ZodUnion<readonly [z.ZodBoolean, z.ZodType<RetryPolicy, RetryPolicy>]>
+    >;
+    timeoutMs: z.ZodOptional<z.ZodNumber>;
+    maxConcurrency: z.ZodOptional<z.ZodNumber>;
+    maxQueueLength: z.ZodOptional<z.ZodNumber>;
+    dedupe: z.ZodOptional<
+      z.ZodUnion<readonly [z.ZodBoolean, z.ZodType<DedupeOptions, DedupeOptions>]>
+    >;
   }>
   & z.ZodType<CommonTriggerOptions, CommonTriggerOptions> = z.object({
     description: z.string().optional(),
-    retryOnFailure: z.boolean().optional(),
+    label: z.string().optional(),
+    retryOnFailure: z.union([z.boolean(), RetryPolicy]).optional(),
+    timeoutMs: z.number().optional(),
+    maxConcurrency: z.number().optional(),
+    maxQueueLength: z.number().optional(),
+    dedupe: z.union([z.boolean(), DedupeOptions]).optional(),
   });
 
 /**
@@ -56,17 +204,33 @@ export const CommonTriggerWithAccountOptions:
         accountSelector: z.record(z.string(), z.string().optional()).optional(),
       });
 
+/** Trigger options that are handled by the runtime and never sent to the backend. */
+const runtimeOnlyTriggerOptions = {
+  label: true,
+  retryOnFailure: true,
+  timeoutMs: true,
+  maxConcurrency: true,
+  maxQueueLength: true,
+  dedupe: true,
+} as const;
+type RuntimeOnlyTriggerOptions = keyof typeof runtimeOnlyTriggerOptions;
+
 /**
  * Common backend config for all trigger configurations. This type is related to
  * {@link CommonTriggerOptions} but without features that exist purely in the
  * runtime.
  */
-export type CommonTriggerBackendConfig = Omit<CommonTriggerOptions, "retryOnFailure">;
+export type CommonTriggerBackendConfig = Omit<
+  CommonTriggerOptions,
+  RuntimeOnlyTriggerOptions
+>;
 export const CommonTriggerBackendConfig:
-  & z.ZodObject<z.util.Omit<(typeof CommonTriggerOptions)["shape"], "retryOnFailure">>
-  & z.ZodType<CommonTriggerBackendConfig, CommonTriggerBackendConfig> = CommonTriggerOptions.omit({
-    retryOnFailure: true,
-  });
+  & z.ZodObject<
+    z.util.Omit<(typeof CommonTriggerOptions)["shape"], RuntimeOnlyTriggerOptions>
+  >
+  & z.ZodType<CommonTriggerBackendConfig, CommonTriggerBackendConfig> = CommonTriggerOptions.omit(
+    runtimeOnlyTriggerOptions,
+  );
 
 /**
  * Common backend config for all trigger configurations that use an external
@@ -75,14 +239,17 @@ export const CommonTriggerBackendConfig:
  */
 export type CommonTriggerWithAccountBackendConfig = Omit<
   CommonTriggerWithAccountOptions,
-  "retryOnFailure"
+  RuntimeOnlyTriggerOptions
 >;
 export const CommonTriggerWithAccountBackendConfig:
-  & z.ZodObject<z.util.Omit<(typeof CommonTriggerWithAccountOptions)["shape"], "retryOnFailure">>
+  & z.ZodObject<
+    z.util.Omit<
+      (typeof CommonTriggerWithAccountOptions)["shape"],
+      RuntimeOnlyTriggerOptions
+    >
+  >
   & z.ZodType<CommonTriggerBackendConfig, CommonTriggerBackendConfig> =
-    CommonTriggerWithAccountOptions.omit({
-      retryOnFailure: true,
-    });
+    CommonTriggerWithAccountOptions.omit(runtimeOnlyTriggerOptions);
 
 /**
  * Common options available for all credential fetcher configurations.
@@ -90,6 +257,19 @@ export const CommonTriggerWithAccountBackendConfig:
 export interface CommonCredentialFetcherOptions {
   /** Description that appears for the credential fetcher when configuring a Glue. */
   description?: string;
+  /**
+   * A stable identifier for this credential fetcher within the Glue. The
+   * account or credential connected to the fetcher when configuring the Glue
+   * is tied to its label. If omitted, a label is assigned automatically based
+   * on registration order, which changes when other registrations are added
+   * above this one.
+   *
+   * Labels must start with a letter, may only contain letters, digits, `-` and
+   * `_`, can be at most 64 characters long, and must be unique within the Glue.
+   * Labels of the form `task-N` are reserved for the automatic labels of
+   * delayed tasks.
+   */
+  label?: string;
   /**
    * Key-value pairs identifying which account to use, e.g. `{email:
    * "foo@example.com"}` or `{workspaceId: "xyz"}`. If multiple accounts match
@@ -102,9 +282,11 @@ export interface CommonCredentialFetcherOptions {
 export const CommonCredentialFetcherOptions:
   & z.ZodObject<{
     description: z.ZodOptional<z.ZodString>;
+    label: z.ZodOptional<z.ZodString>;
     accountSelector: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodOptional<z.ZodString>>>;
   }>
   & z.ZodType<CommonCredentialFetcherOptions, CommonCredentialFetcherOptions> = z.object({
     description: z.string().optional(),
+    label: z.string().optional(),
     accountSelector: z.record(z.string(), z.string().optional()).optional(),
   });
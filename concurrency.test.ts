@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+import { resetGlobalConcurrencyLimiter } from "./runtimeSupport.ts";
+
+let release = Promise.withResolvers<void>();
+const started: string[] = [];
+
+glue.webhook.onPost(async (event) => {
+  started.push(event.urlParams.id);
+  await release.promise;
+}, { maxConcurrency: 1, maxQueueLength: 1 });
+glue.webhook.onGet(async (event) => {
+  started.push(event.urlParams.id);
+  await release.promise;
+});
+
+const harness = createTestHarness();
+
+function fire(method: "POST" | "GET", id: string) {
+  return harness.fire(glue.webhook, method, { method, urlParams: { id }, headers: {} });
+}
+
+/**
+ * Runs `fn` with the given environment variables set, restoring them after so
+ * that other test modules in the process don't inherit them.
+ */
+async function withEnv(vars: Record<string, string>, fn: () => Promise<void>) {
+  const previous = Object.keys(vars).map((name) => [name, Deno.env.get(name)] as const);
+  for (const [name, value] of Object.entries(vars)) {
+    Deno.env.set(name, value);
+  }
+  // The deployment-wide limit is read once, so read it again with these values.
+  resetGlobalConcurrencyLimiter();
+  try {
+    await fn();
+  } finally {
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+    resetGlobalConcurrencyLimiter();
+  }
+}
+
+Deno.test("maxConcurrency queues invocations and rejects them once the queue is full", async () => {
+  started.length = 0;
+  release = Promise.withResolvers();
+  const first = fire("POST", "1");
+  const second = fire("POST", "2");
+  const third = await fire("POST", "3");
+  assertEquals(
+    third.error?.split("\n")[0],
+    "QueueFullError: Too many concurrent invocations of the webhook trigger 0: 1 running and 1 queued",
+  );
+  assertEquals(started, ["1"]);
+
+  release.resolve();
+  assertEquals((await first).error, undefined);
+  assertEquals((await second).error, undefined);
+  assertEquals(started, ["1", "2"]);
+});
+
+Deno.test("GLUE_MAX_CONCURRENCY limits invocations across triggers", () =>
+  withEnv({ GLUE_MAX_CONCURRENCY: "2", GLUE_MAX_QUEUE_LENGTH: "0" }, async () => {
+    started.length = 0;
+    release = Promise.withResolvers();
+    const running = [fire("GET", "1"), fire("POST", "2")];
+    const rejected = await fire("GET", "3");
+    assertEquals(
+      rejected.error?.split("\n")[0],
+      "QueueFullError: Too many concurrent invocations of the deployment: 2 running and 0 queued",
+    );
+
+    release.resolve();
+    for (const invocation of running) {
+      assertEquals((await invocation).error, undefined);
+    }
+    assertEquals(started, ["1", "2"]);
+  }));
@@ -0,0 +1,57 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { ConcurrencyLimiter, QueueFullError } from "./concurrencyLimiter.ts";
+
+Deno.test("ConcurrencyLimiter runs queued calls in order as slots free up", async () => {
+  const limiter = new ConcurrencyLimiter("test", 2, 10);
+  const events: string[] = [];
+  const releases = [0, 1, 2, 3].map(() => Promise.withResolvers<void>());
+
+  const calls = releases.map(({ promise }, index) =>
+    limiter.run(async () => {
+      events.push(`start ${index}`);
+      await promise;
+      events.push(`end ${index}`);
+    })
+  );
+  await Promise.resolve();
+  assertEquals(events, ["start 0", "start 1"]);
+  assertEquals([limiter.running, limiter.queued], [2, 2]);
+
+  releases[1].resolve();
+  await calls[1];
+  await Promise.resolve();
+  assertEquals(events, ["start 0", "start 1", "end 1", "start 2"]);
+
+  releases[0].resolve();
+  await calls[0];
+  await Promise.resolve();
+  assertEquals(events.slice(4), ["end 0", "start 3"]);
+
+  releases[2].resolve();
+  releases[3].resolve();
+  await Promise.all(calls);
+  assertEquals([limiter.running, limiter.queued], [0, 0]);
+});
+
+Deno.test("ConcurrencyLimiter rejects calls when the queue is full", async () => {
+  const limiter = new ConcurrencyLimiter("the webhook trigger 0", 1, 1);
+  const release = Promise.withResolvers<void>();
+  const running = limiter.run(() => release.promise);
+  const queued = limiter.run(() => Promise.resolve("queued"));
+
+  await assertRejects(
+    () => limiter.run(() => Promise.resolve("rejected")),
+    QueueFullError,
+    "Too many concurrent invocations of the webhook trigger 0: 1 running and 1 queued",
+  );
+
+  release.resolve();
+  await running;
+  assertEquals(await queued, "queued");
+});
+
+Deno.test("ConcurrencyLimiter frees the slot of calls that throw", async () => {
+  const limiter = new ConcurrencyLimiter("test", 1, 0);
+  await assertRejects(() => limiter.run(() => Promise.reject(new Error("failed"))));
+  assertEquals(await limiter.run(() => Promise.resolve("ran")), "ran");
+});
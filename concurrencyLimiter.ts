@@ -0,0 +1,69 @@
+/**
+ * The error an invocation fails with when it would have to wait for a
+ * concurrency slot but the queue of waiting invocations is already full.
+ */
+export class QueueFullError extends Error {
+  constructor(description: string, maxConcurrency: number, maxQueueLength: number) {
+    super(
+      `Too many concurrent invocations of ${description}: ${maxConcurrency} running and ${maxQueueLength} queued`,
+    );
+    this.name = "QueueFullError";
+  }
+}
+
+/**
+ * Limits how many calls of {@link ConcurrencyLimiter.run} run at once. Calls
+ * over the limit wait in a first-in, first-out queue of bounded length.
+ */
+export class ConcurrencyLimiter {
+  #running = 0;
+  readonly #queue: Array<() => void> = [];
+
+  /**
+   * @param description Describes what is being limited in
+   * {@link QueueFullError} messages, such as "the github trigger 2".
+   */
+  constructor(
+    readonly description: string,
+    readonly maxConcurrency: number,
+    readonly maxQueueLength: number,
+  ) {}
+
+  /** The number of calls currently running. */
+  get running(): number {
+    return this.#running;
+  }
+
+  /** The number of calls waiting to run. */
+  get queued(): number {
+    return this.#queue.length;
+  }
+
+  /**
+   * Runs `fn` once fewer than `maxConcurrency` calls are running.
+   *
+   * @throws {QueueFullError} If `maxQueueLength` calls are already waiting.
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.#running >= this.maxConcurrency) {
+      if (this.#queue.length >= this.maxQueueLength) {
+        throw new QueueFullError(this.description, this.maxConcurrency, this.maxQueueLength);
+      }
+      // The slot is handed over directly by the call that releases it, so
+      // #running isn't incremented here.
+      await new Promise<void>((resolve) => this.#queue.push(resolve));
+    } else {
+      this.#running++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = this.#queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.#running--;
+      }
+    }
+  }
+}
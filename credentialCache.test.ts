@@ -0,0 +1,77 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { CredentialCache, EXPIRY_MARGIN_MS, MAX_AGE_WITHOUT_EXPIRY_MS } from "./credentialCache.ts";
+
+function createFetcher() {
+  let fetches = 0;
+  return {
+    get fetches() {
+      return fetches;
+    },
+    fetch: (credential: (fetch: number) => unknown) => () => Promise.resolve(credential(++fetches)),
+  };
+}
+
+Deno.test("CredentialCache reuses credentials until shortly before they expire", async () => {
+  let now = 0;
+  const cache = new CredentialCache(() => now);
+  const fetcher = createFetcher();
+  const fetch = fetcher.fetch((n) => ({ accessToken: `token-${n}`, expiresAt: 10 * 60 * 1000 }));
+
+  assertEquals(await cache.get("deployment/0", fetch), {
+    accessToken: "token-1",
+    expiresAt: 600000,
+  });
+  now = 10 * 60 * 1000 - EXPIRY_MARGIN_MS - 1;
+  assertEquals(await cache.get("deployment/0", fetch), {
+    accessToken: "token-1",
+    expiresAt: 600000,
+  });
+  now++;
+  assertEquals(await cache.get("deployment/0", fetch), {
+    accessToken: "token-2",
+    expiresAt: 600000,
+  });
+  assertEquals(fetcher.fetches, 2);
+});
+
+Deno.test("CredentialCache reuses credentials without an expiry for a limited time", async () => {
+  let now = 0;
+  const cache = new CredentialCache(() => now);
+  const fetcher = createFetcher();
+  const fetch = fetcher.fetch((n) => ({ apiKey: `key-${n}` }));
+
+  await cache.get("deployment/0", fetch);
+  now = MAX_AGE_WITHOUT_EXPIRY_MS - 1;
+  assertEquals(await cache.get("deployment/0", fetch), { apiKey: "key-1" });
+  now++;
+  assertEquals(await cache.get("deployment/0", fetch), { apiKey: "key-2" });
+});
+
+Deno.test("CredentialCache shares in-flight fetches", async () => {
+  const cache = new CredentialCache();
+  const fetcher = createFetcher();
+  const fetch = fetcher.fetch((n) => ({ apiKey: `key-${n}` }));
+
+  const [first, second] = await Promise.all([
+    cache.get("deployment/0", fetch),
+    cache.get("deployment/0", fetch),
+  ]);
+  assertEquals(first, { apiKey: "key-1" });
+  assertEquals(second, { apiKey: "key-1" });
+  assertEquals(await cache.get("deployment/1", fetch), { apiKey: "key-2" });
+});
+
+Deno.test("CredentialCache refetches when forced or after a failure", async () => {
+  const cache = new CredentialCache();
+  const fetcher = createFetcher();
+  const fetch = fetcher.fetch((n) => ({ apiKey: `key-${n}` }));
+
+  await cache.get("deployment/0", fetch);
+  assertEquals(await cache.get("deployment/0", fetch, true), { apiKey: "key-2" });
+  assertEquals(await cache.get("deployment/0", fetch), { apiKey: "key-2" });
+
+  await assertRejects(() =>
+    cache.get("deployment/1", () => Promise.reject(new Error("backend down")))
+  );
+  assertEquals(await cache.get("deployment/1", fetch), { apiKey: "key-3" });
+});
@@ -0,0 +1,72 @@
+/**
+ * How long before a credential's `expiresAt` it stops being reused, so that
+ * handlers don't receive a credential that expires while they use it.
+ */
+export const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * How long credentials without an `expiresAt`, such as API keys, are reused
+ * before they are fetched again.
+ */
+export const MAX_AGE_WITHOUT_EXPIRY_MS = 5 * 60 * 1000;
+
+interface CacheEntry {
+  credential: Promise<unknown>;
+  /**
+   * When the credential stops being reused, in milliseconds since the epoch.
+   * `undefined` while the fetch is in flight.
+   */
+  reuseUntil: number | undefined;
+}
+
+/**
+ * Caches fetched credentials until shortly before they expire. Concurrent
+ * requests for a credential that isn't cached share a single fetch.
+ */
+export class CredentialCache {
+  readonly #entries = new Map<string, CacheEntry>();
+
+  constructor(readonly now: () => number = Date.now) {}
+
+  /**
+   * Returns the cached credential for `key`, or fetches it with `fetch` if it
+   * isn't cached, is about to expire, or `forceRefresh` is set. Failed fetches
+   * aren't cached.
+   */
+  get(key: string, fetch: () => Promise<unknown>, forceRefresh = false): Promise<unknown> {
+    const cached = this.#entries.get(key);
+    if (
+      cached && !forceRefresh &&
+      (cached.reuseUntil === undefined || cached.reuseUntil > this.now())
+    ) {
+      return cached.credential;
+    }
+
+    const entry: CacheEntry = { credential: fetch(), reuseUntil: undefined };
+    this.#entries.set(key, entry);
+    entry.credential.then(
+      (credential) => {
+        entry.reuseUntil = this.#getReuseUntil(credential);
+      },
+      () => {
+        // Only forget the entry if a newer fetch hasn't replaced it.
+        if (this.#entries.get(key) === entry) {
+          this.#entries.delete(key);
+        }
+      },
+    );
+    return entry.credential;
+  }
+
+  /** Forgets every cached credential. */
+  clear(): void {
+    this.#entries.clear();
+  }
+
+  #getReuseUntil(credential: unknown): number {
+    const expiresAt = (credential as { expiresAt?: unknown } | null)?.expiresAt;
+    return typeof expiresAt === "number"
+      ? expiresAt - EXPIRY_MARGIN_MS
+      : this.now() + MAX_AGE_WITHOUT_EXPIRY_MS;
+  }
+}
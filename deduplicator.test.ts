@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createDeduplicator, Deduplicator } from "./deduplicator.ts";
+
+const byId = (event: unknown) => (event as { id?: string }).id;
+
+Deno.test("Deduplicator reports events seen within the window as duplicates", () => {
+  let now = 0;
+  const deduplicator = new Deduplicator(byId, 1000, () => now);
+  assertEquals(deduplicator.claim({ id: "a" }), { duplicate: false, key: "a" });
+  assertEquals(deduplicator.claim({ id: "b" }), { duplicate: false, key: "b" });
+  now = 999;
+  assertEquals(deduplicator.claim({ id: "a" }), { duplicate: true, key: "a" });
+  now = 1000;
+  assertEquals(deduplicator.claim({ id: "a" }), { duplicate: false, key: "a" });
+});
+
+Deno.test("Deduplicator lets events without a key through", () => {
+  const deduplicator = new Deduplicator(byId, 1000);
+  assertEquals(deduplicator.claim({}), { duplicate: false, key: undefined });
+  assertEquals(deduplicator.claim({}), { duplicate: false, key: undefined });
+});
+
+Deno.test("Deduplicator forgets released keys", () => {
+  const deduplicator = new Deduplicator(byId, 1000);
+  deduplicator.claim({ id: "a" });
+  deduplicator.release("a");
+  assertEquals(deduplicator.claim({ id: "a" }), { duplicate: false, key: "a" });
+});
+
+Deno.test("createDeduplicator uses built-in keys or requires a key function", () => {
+  assertEquals(createDeduplicator("stripe", undefined), undefined);
+  assertEquals(createDeduplicator("slack", true)?.key({ event_id: "Ev1" }), "Ev1");
+  assertEquals(createDeduplicator("github", { key: () => "x" })?.key({}), "x");
+  assertThrows(
+    () => createDeduplicator("github", true),
+    Error,
+    "github events have no built-in delivery id",
+  );
+  assertThrows(() => createDeduplicator("stripe", { windowMs: 0 }), Error, "windowMs");
+});
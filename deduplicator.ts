@@ -0,0 +1,97 @@
+import type { DedupeOptions } from "./common.ts";
+
+/** How long delivery ids are remembered when `windowMs` isn't set. */
+const DEFAULT_DEDUPE_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Delivery id extractors for trigger types whose events carry one, used when
+ * `dedupe` doesn't provide its own key function.
+ */
+const builtInDedupeKeys: Record<string, (event: unknown) => string | undefined> = {
+  slack: (event) => (event as { event_id?: string }).event_id,
+  stripe: (event) => (event as { id?: string }).id,
+  intercom: (event) => (event as { id?: string }).id,
+};
+
+/**
+ * Remembers the delivery ids of recent events of one trigger so that
+ * redelivered events can be dropped.
+ */
+export class Deduplicator {
+  /** Expiry times of remembered keys, in insertion order. */
+  readonly #expiresAtByKey = new Map<string, number>();
+
+  constructor(
+    readonly key: (event: unknown) => string | undefined,
+    readonly windowMs: number,
+    readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Forgets keys whose window has passed. Every key is remembered for the same
+   * window, so they expire in insertion order.
+   */
+  #forgetExpired() {
+    const now = this.now();
+    for (const [key, expiresAt] of this.#expiresAtByKey) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.#expiresAtByKey.delete(key);
+    }
+  }
+
+  /**
+   * Claims the event's delivery id, which is reported as a duplicate if it was
+   * already claimed within the window. Events without a delivery id are never
+   * duplicates.
+   */
+  claim(event: unknown): { duplicate: boolean; key: string | undefined } {
+    this.#forgetExpired();
+    const key = this.key(event);
+    if (key === undefined) {
+      return { duplicate: false, key };
+    }
+    if (this.#expiresAtByKey.has(key)) {
+      return { duplicate: true, key };
+    }
+    this.#expiresAtByKey.set(key, this.now() + this.windowMs);
+    return { duplicate: false, key };
+  }
+
+  /**
+   * Forgets a claimed delivery id, such as when its handler failed and the
+   * event should run again if it is redelivered.
+   */
+  release(key: string): void {
+    this.#expiresAtByKey.delete(key);
+  }
+}
+
+/**
+ * Creates the {@link Deduplicator} for a trigger's `dedupe` option, or returns
+ * `undefined` if deduplication isn't enabled.
+ *
+ * @throws If the option is invalid or no key function is available for the
+ * trigger type.
+ */
+export function createDeduplicator(
+  triggerType: string,
+  dedupe: boolean | DedupeOptions | undefined,
+): Deduplicator | undefined {
+  if (!dedupe) {
+    return undefined;
+  }
+  const options = dedupe === true ? {} : dedupe;
+  const key = options.key ?? builtInDedupeKeys[triggerType];
+  if (!key) {
+    throw new Error(
+      `${triggerType} events have no built-in delivery id. Pass a key function in dedupe to deduplicate them.`,
+    );
+  }
+  const windowMs = options.windowMs ?? DEFAULT_DEDUPE_WINDOW_MS;
+  if (!(windowMs > 0 && Number.isFinite(windowMs))) {
+    throw new Error(`Invalid dedupe windowMs ${windowMs}. It must be a positive number.`);
+  }
+  return new Deduplicator(key, windowMs);
+}
@@ -0,0 +1,76 @@
+import { assertEquals, assertGreaterOrEqual, assertInstanceOf } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue, type HandlerContext } from "./mod.ts";
+
+const contexts: HandlerContext[] = [];
+glue.webhook.onPost((_event, ctx) => {
+  contexts.push(ctx);
+  ctx.logger.log(`attempt ${ctx.attempt}`);
+  if (ctx.attempt === 1) {
+    throw new Error("try again");
+  }
+}, {
+  label: "orders",
+  description: "Receives orders",
+  retryOnFailure: { maxAttempts: 2, initialDelayMs: 0, jitter: 0 },
+});
+
+let alwaysFailingAttempts = 0;
+glue.webhook.onGet(() => {
+  throw new Error(`attempt ${++alwaysFailingAttempts} failed`);
+}, {
+  label: "always-fails",
+  retryOnFailure: { maxAttempts: 3, initialDelayMs: 0, jitter: 0 },
+});
+
+// Handlers that only take the event keep working.
+let singleArgumentCalls = 0;
+glue.debug.registerRawTrigger("plain", () => {
+  singleArgumentCalls++;
+});
+
+const harness = createTestHarness();
+
+Deno.test("handlers receive the invocation's context", async () => {
+  const before = Date.now();
+  const { logs, error } = await harness.fire(glue.webhook, "orders", {
+    method: "POST",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error, undefined);
+  assertEquals(contexts.map(({ attempt }) => attempt), [1, 2]);
+  const [first, second] = contexts;
+  const { signal, logger, ...rest } = second;
+  assertEquals(rest, {
+    type: "webhook",
+    label: "orders",
+    description: "Receives orders",
+    attempt: 2,
+    deploymentId: "test-deployment",
+    receivedAt: first.receivedAt,
+  });
+  assertGreaterOrEqual(first.receivedAt, before);
+  assertInstanceOf(signal, AbortSignal);
+  assertEquals(typeof logger.error, "function");
+  assertEquals(logs.map((log) => log.text).filter((text) => text.startsWith("attempt")), [
+    "attempt 1\n",
+    "attempt 2\n",
+  ]);
+});
+
+Deno.test("handlers that fail every attempt report the last attempt's error", async () => {
+  const { error } = await harness.fire(glue.webhook, "always-fails", {
+    method: "GET",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(alwaysFailingAttempts, 3);
+  assertEquals(error?.split("\n")[0], "Error: attempt 3 failed");
+});
+
+Deno.test("single-argument handlers still run", async () => {
+  const { error } = await harness.fire("plain", "0", {});
+  assertEquals(error, undefined);
+  assertEquals(singleArgumentCalls, 1);
+});
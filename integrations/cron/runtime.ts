@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { CommonTriggerBackendConfig, type CommonTriggerOptions } from "../../common.ts";
-import { registerEventListener } from "../../runtimeSupport.ts";
+import { type HandlerContext, registerEventListener } from "../../runtimeSupport.ts";
 
 export interface CronTriggerBackendConfig extends CommonTriggerBackendConfig {
   /** The cron expression defining when the event should trigger */
@@ -120,9 +120,13 @@ export class Cron {
    *
    * @see https://crontab.guru/ - Interactive cron expression editor
    */
-  onCron(crontab: string, fn: (event: CronEvent) => void, options?: CronTriggerOptions): void {
+  onCron(
+    crontab: string,
+    fn: (event: CronEvent, ctx: HandlerContext) => void,
+    options?: CronTriggerOptions,
+  ): void {
     const config: CronTriggerBackendConfig = { crontab, timezone: options?.timezone };
-    registerEventListener("cron", fn, options, config);
+    registerEventListener("cron", fn, options, config, CronTriggerBackendConfig);
   }
 
   /**
@@ -157,7 +161,7 @@ export class Cron {
    */
   everyXMinutes(
     minutes: number,
-    fn: (event: CronEvent) => void,
+    fn: (event: CronEvent, ctx: HandlerContext) => void,
     options?: CommonTriggerOptions,
   ): void {
     const crontab = `*/${minutes} * * * *`;
@@ -194,7 +198,11 @@ export class Cron {
    *
    * @throws Will create an invalid cron expression if hours > 24 or doesn't divide evenly into 24
    */
-  everyXHours(hours: number, fn: (event: CronEvent) => void, options?: CommonTriggerOptions): void {
+  everyXHours(
+    hours: number,
+    fn: (event: CronEvent, ctx: HandlerContext) => void,
+    options?: CommonTriggerOptions,
+  ): void {
     const crontab = `0 */${hours} * * *`;
     this.onCron(crontab, fn, options);
   }
@@ -229,7 +237,11 @@ export class Cron {
    *
    * @note Due to varying month lengths, intervals > 28 days may not run consistently
    */
-  everyXDays(days: number, fn: (event: CronEvent) => void, options?: CommonTriggerOptions): void {
+  everyXDays(
+    days: number,
+    fn: (event: CronEvent, ctx: HandlerContext) => void,
+    options?: CommonTriggerOptions,
+  ): void {
     const crontab = `0 0 */${days} * *`;
     this.onCron(crontab, fn, options);
   }
@@ -2,11 +2,12 @@ import {
   type AccessTokenCredential,
   type ApiKeyCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
 import type { CredentialFetcherBackendConfig } from "../../backendTypes.ts";
-import type { CommonTriggerBackendConfig } from "../../common.ts";
+import { CommonTriggerBackendConfig } from "../../common.ts";
 
 /**
  * Debug integration exposing low-level registration helpers.
@@ -27,11 +28,12 @@ export class Debug {
    */
   registerRawTrigger(
     type: string,
-    fn: (event: unknown) => void,
-    // Allow any shape; extra keys are preserved because runtime doesn't validate.
+    fn: (event: unknown, ctx: HandlerContext) => void,
+    // Allow any shape; only the common keys are validated and extra keys are
+    // preserved.
     config?: CommonTriggerBackendConfig & Record<string, unknown>,
   ): void {
-    registerEventListener(type, fn, config, config ?? {});
+    registerEventListener(type, fn, config, config ?? {}, CommonTriggerBackendConfig);
   }
 
   /**
@@ -3,7 +3,11 @@ import {
   CommonTriggerWithAccountBackendConfig,
   type CommonTriggerWithAccountOptions,
 } from "../../common.ts";
-import { registerEventListener } from "../../runtimeSupport.ts";
+import {
+  type HandlerContext,
+  registerBatchEventListener,
+  registerEventListener,
+} from "../../runtimeSupport.ts";
 import type { drive_v3 } from "@googleapis/drive";
 
 export type DriveChangeEvent = drive_v3.Schema$Change;
@@ -95,6 +99,21 @@ export const DriveTriggerBackendConfig: z.ZodType<DriveTriggerBackendConfig> =
       ]),
     });
 
+function changesBackendConfig(
+  options: Omit<DriveChangesTriggerOptions, "dedupe"> | undefined,
+): DriveTriggerBackendConfig {
+  return {
+    watchConfig: {
+      type: "changes",
+      driveId: options?.driveId,
+      includeItemsFromAllDrives: options?.includeItemsFromAllDrives,
+      includeRemoved: options?.includeRemoved,
+      restrictToMyDrive: options?.restrictToMyDrive,
+      spaces: options?.spaces,
+    },
+  };
+}
+
 /**
  * Event source for listening to changes in Google Drive.
  */
@@ -103,27 +122,41 @@ export class Drive {
    * Registers a glue handler for changes in Google Drive.
    */
   onDriveChanged(
-    fn: (event: DriveChangeEvent) => void,
+    fn: (event: DriveChangeEvent, ctx: HandlerContext) => void,
     options?: DriveChangesTriggerOptions,
   ): void {
-    const backendConfig: DriveTriggerBackendConfig = {
-      watchConfig: {
-        type: "changes",
-        driveId: options?.driveId,
-        includeItemsFromAllDrives: options?.includeItemsFromAllDrives,
-        includeRemoved: options?.includeRemoved,
-        restrictToMyDrive: options?.restrictToMyDrive,
-        spaces: options?.spaces,
-      },
-    };
-    registerEventListener("drive", fn, options, backendConfig);
+    registerEventListener(
+      "drive",
+      fn,
+      options,
+      changesBackendConfig(options),
+      DriveTriggerBackendConfig,
+    );
+  }
+
+  /**
+   * Registers a glue handler for changes in Google Drive that processes
+   * changes in batches. When many changes happen at once, they can be
+   * delivered together and the handler is called once with all of them.
+   */
+  onDriveChangedBatch(
+    fn: (events: DriveChangeEvent[], ctx: HandlerContext) => void | Promise<void>,
+    options?: Omit<DriveChangesTriggerOptions, "dedupe">,
+  ): void {
+    registerBatchEventListener(
+      "drive",
+      fn,
+      options,
+      changesBackendConfig(options),
+      DriveTriggerBackendConfig,
+    );
   }
 
   /**
    * Registers a glue handler for changes in a specific Google Drive file.
    */
   onFileChanged(
-    fn: (event: DriveSingleFileChangeEvent) => void,
+    fn: (event: DriveSingleFileChangeEvent, ctx: HandlerContext) => void,
     options: DriveSingleFileTriggerOptions,
   ): void {
     const backendConfig: DriveTriggerBackendConfig = {
@@ -132,6 +165,6 @@ export class Drive {
         fileId: options.fileId,
       },
     };
-    registerEventListener("drive", fn, options, backendConfig);
+    registerEventListener("drive", fn, options, backendConfig, DriveTriggerBackendConfig);
   }
 }
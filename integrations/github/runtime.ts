@@ -3,6 +3,7 @@ import type { WebhookEventMap, WebhookEventName } from "@octokit/webhooks-types"
 import {
   type AccessTokenCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -166,7 +167,7 @@ export class Github {
     owner: string,
     repo: string,
     events: T[],
-    fn: (event: GithubEvent<T>) => void,
+    fn: (event: GithubEvent<T>, ctx: HandlerContext) => void,
     options?: GithubTriggerOptions,
   ): void {
     const config: GithubRepoTriggerBackendConfig = {
@@ -174,7 +175,7 @@ export class Github {
       repo,
       events,
     };
-    registerEventListener("github", fn, options, config);
+    registerEventListener("github", fn, options, config, GithubRepoTriggerBackendConfig);
   }
 
   /**
@@ -204,14 +205,14 @@ export class Github {
   onOrgEvent<T extends WebhookEventName>(
     org: string,
     events: T[],
-    fn: (event: GithubEvent<T>) => void,
+    fn: (event: GithubEvent<T>, ctx: HandlerContext) => void,
     options?: GithubTriggerOptions,
   ): void {
     const config: GithubOrgTriggerBackendConfig = {
       org,
       events,
     };
-    registerEventListener("github", fn, options, config);
+    registerEventListener("github", fn, options, config, GithubOrgTriggerBackendConfig);
   }
 
   /**
@@ -250,7 +251,7 @@ export class Github {
   onPullRequestEvent(
     owner: string,
     repo: string,
-    fn: (event: GithubEvent<"pull_request">) => void,
+    fn: (event: GithubEvent<"pull_request">, ctx: HandlerContext) => void,
     options?: GithubTriggerOptions,
   ): void {
     this.onRepoEvent(owner, repo, ["pull_request"], fn, options);
@@ -1,6 +1,6 @@
 import z from "zod";
 import { CommonTriggerBackendConfig, type CommonTriggerOptions } from "../../common.ts";
-import { registerEventListener } from "../../runtimeSupport.ts";
+import { type HandlerContext, registerEventListener } from "../../runtimeSupport.ts";
 
 /**
  * Represents a Gmail message event triggered when a new email is received.
@@ -53,12 +53,12 @@ export class Gmail {
    * ```
    */
   onMessage(
-    fn: (event: GmailMessageEvent) => void,
+    fn: (event: GmailMessageEvent, ctx: HandlerContext) => void,
     options?: GmailTriggerOptions,
   ): void {
     const config: GmailTriggerBackendConfig = {
       accountEmailAddress: options?.accountEmailAddress,
     };
-    registerEventListener("gmail", fn, options, config);
+    registerEventListener("gmail", fn, options, config, GmailTriggerBackendConfig);
   }
 }
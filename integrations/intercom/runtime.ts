@@ -8,6 +8,7 @@ import {
 import {
   type AccessTokenCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -176,13 +177,13 @@ export class Intercom {
    */
   onEvent<T extends string>(
     events: T[],
-    fn: (event: IntercomEvent<T>) => void,
+    fn: (event: IntercomEvent<T>, ctx: HandlerContext) => void,
     options?: IntercomTriggerOptions,
   ): void {
     const config: IntercomTriggerBackendConfig = {
       events,
     };
-    registerEventListener("intercom", fn, options, config);
+    registerEventListener("intercom", fn, options, config, IntercomTriggerBackendConfig);
   }
 
   /**
@@ -193,7 +194,7 @@ export class Intercom {
    * surveys, or updating external systems.
    */
   onConversationClosed(
-    fn: (event: IntercomEvent<"conversation.admin.closed">) => void,
+    fn: (event: IntercomEvent<"conversation.admin.closed">, ctx: HandlerContext) => void,
     options?: IntercomTriggerOptions,
   ): void {
     this.onEvent(["conversation.admin.closed"], fn, options);
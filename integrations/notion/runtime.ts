@@ -7,6 +7,7 @@ import {
 import {
   type AccessTokenCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -83,6 +84,7 @@ export type NotionWebhookPayloadByType = {
 export type NotionEventType = keyof NotionWebhookPayloadByType;
 type NotionEventHandler<T extends NotionEventType> = (
   event: NotionWebhookPayloadByType[T],
+  ctx: HandlerContext,
 ) => void;
 
 export interface NotionTriggerOptions extends CommonTriggerOptions {
@@ -125,7 +127,7 @@ export class Notion {
     const config: NotionTriggerBackendConfig = {
       events,
     };
-    registerEventListener("notion", fn, options, config);
+    registerEventListener("notion", fn, options, config, NotionTriggerBackendConfig);
   }
 
   /**
@@ -1,6 +1,6 @@
 import z from "zod";
 import { CommonTriggerBackendConfig, type CommonTriggerOptions } from "../../common.ts";
-import { registerEventListener } from "../../runtimeSupport.ts";
+import { type HandlerContext, registerEventListener } from "../../runtimeSupport.ts";
 import type { drive_v3 } from "@googleapis/drive";
 
 export interface SheetsTriggerBackendConfig extends CommonTriggerBackendConfig {
@@ -75,7 +75,7 @@ export class Sheets {
    */
   onNewRow(
     fileId: string,
-    fn: (event: SheetNewRowEvent) => void,
+    fn: (event: SheetNewRowEvent, ctx: HandlerContext) => void,
     options?: SheetsTriggerOptions,
   ): void {
     const backendConfig: SheetsTriggerBackendConfig = {
@@ -83,7 +83,7 @@ export class Sheets {
       fileId,
       type: "newRow",
     };
-    registerEventListener("sheets", fn, options, backendConfig);
+    registerEventListener("sheets", fn, options, backendConfig, SheetsTriggerBackendConfig);
   }
 
   /**
@@ -92,7 +92,7 @@ export class Sheets {
    */
   onNewOrUpdatedRow(
     fileId: string,
-    fn: (event: SheetNewOrUpdatedRowEvent) => void,
+    fn: (event: SheetNewOrUpdatedRowEvent, ctx: HandlerContext) => void,
     options?: SheetsTriggerOptions,
   ): void {
     const backendConfig: SheetsTriggerBackendConfig = {
@@ -100,7 +100,7 @@ export class Sheets {
       fileId,
       type: "newOrUpdatedRow",
     };
-    registerEventListener("sheets", fn, options, backendConfig);
+    registerEventListener("sheets", fn, options, backendConfig, SheetsTriggerBackendConfig);
   }
 
   /**
@@ -109,7 +109,7 @@ export class Sheets {
    */
   onNewComment(
     fileId: string,
-    fn: (event: SheetNewCommentEvent) => void,
+    fn: (event: SheetNewCommentEvent, ctx: HandlerContext) => void,
     options?: SheetsTriggerOptions,
   ): void {
     const backendConfig: SheetsTriggerBackendConfig = {
@@ -117,7 +117,7 @@ export class Sheets {
       fileId,
       type: "newComment",
     };
-    registerEventListener("sheets", fn, options, backendConfig);
+    registerEventListener("sheets", fn, options, backendConfig, SheetsTriggerBackendConfig);
   }
 
   /**
@@ -126,7 +126,7 @@ export class Sheets {
    */
   onNewSheet(
     fileId: string,
-    fn: (event: SheetNewWorksheetEvent) => void,
+    fn: (event: SheetNewWorksheetEvent, ctx: HandlerContext) => void,
     options?: SheetsTriggerOptions,
   ): void {
     const backendConfig: SheetsTriggerBackendConfig = {
@@ -134,6 +134,6 @@ export class Sheets {
       fileId,
       type: "newSheet",
     };
-    registerEventListener("sheets", fn, options, backendConfig);
+    registerEventListener("sheets", fn, options, backendConfig, SheetsTriggerBackendConfig);
   }
 }
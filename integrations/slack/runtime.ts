@@ -7,6 +7,7 @@ import {
 import {
   type AccessTokenCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -161,14 +162,14 @@ export class Slack {
    */
   onEvents<T extends SlackEventType>(
     events: T[],
-    fn: (event: SlackEventWebhook<Extract<SlackEvent, { type: T }>>) => void,
+    fn: (event: SlackEventWebhook<Extract<SlackEvent, { type: T }>>, ctx: HandlerContext) => void,
     options?: SlackTriggerOptions,
   ): void {
     const config: SlackTriggerBackendConfig = {
       events: events,
       channels: options?.channelId ? [options.channelId] : undefined,
     };
-    registerEventListener("slack", fn, options, config);
+    registerEventListener("slack", fn, options, config, SlackTriggerBackendConfig);
   }
 
   /**
@@ -177,7 +178,7 @@ export class Slack {
    * Triggered when a message is posted to a channel visible to the user.
    */
   onNewMessage(
-    fn: (event: SlackEventWebhook<GenericMessageEvent>) => void,
+    fn: (event: SlackEventWebhook<GenericMessageEvent>, ctx: HandlerContext) => void,
     options?: SlackTriggerOptions,
   ): void {
     this.onEvents(["message"], fn as (event: SlackEventWebhook<AllMessageEvents>) => void, options);
@@ -7,6 +7,7 @@ import {
 import {
   type ApiKeyCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -100,14 +101,14 @@ export class Streak {
   onBoxEvent(
     event: BoxEventType,
     pipelineKey: string,
-    fn: (event: StreakEvent) => void,
+    fn: (event: StreakEvent, ctx: HandlerContext) => void,
     options?: StreakTriggerOptions,
   ): void {
     const config: StreakTriggerBackendConfig = {
       pipelineKey,
       event,
     };
-    registerEventListener("streak", fn, options, config);
+    registerEventListener("streak", fn, options, config, StreakTriggerBackendConfig);
   }
 
   /**
@@ -123,7 +124,7 @@ export class Streak {
    */
   onNewBoxCreated(
     pipelineKey: string,
-    fn: (event: StreakEvent) => void,
+    fn: (event: StreakEvent, ctx: HandlerContext) => void,
     options?: StreakTriggerOptions,
   ): void {
     this.onBoxEvent("BOX_CREATE", pipelineKey, fn, options);
@@ -142,7 +143,7 @@ export class Streak {
    */
   onBoxStageChanged(
     pipelineKey: string,
-    fn: (event: StreakEvent) => void,
+    fn: (event: StreakEvent, ctx: HandlerContext) => void,
     options?: StreakTriggerOptions,
   ): void {
     this.onBoxEvent("BOX_CHANGE_STAGE", pipelineKey, fn, options);
@@ -162,7 +163,7 @@ export class Streak {
    */
   onCallLogOrMeetingNoteCreated(
     pipelineKey: string,
-    fn: (event: StreakEvent) => void,
+    fn: (event: StreakEvent, ctx: HandlerContext) => void,
     options?: StreakTriggerOptions,
   ): void {
     this.onBoxEvent("MEETING_CREATE", pipelineKey, fn, options);
@@ -3,6 +3,7 @@ import type { Stripe as StripeLib } from "stripe";
 import {
   type ApiKeyCredential,
   type CredentialFetcher,
+  type HandlerContext,
   registerCredentialFetcher,
   registerEventListener,
 } from "../../runtimeSupport.ts";
@@ -122,13 +123,13 @@ export class Stripe {
    */
   onEvents<T extends StripeEventType>(
     events: T[],
-    fn: (event: StripeEvent<T>) => void,
+    fn: (event: StripeEvent<T>, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     const config: StripeTriggerBackendConfig = {
       events,
     };
-    registerEventListener("stripe", fn, options, config);
+    registerEventListener("stripe", fn, options, config, StripeTriggerBackendConfig);
   }
 
   /**
@@ -138,7 +139,7 @@ export class Stripe {
    * either through the API, dashboard, or during checkout.
    */
   onCustomerCreated(
-    fn: (event: StripeEvent<"customer.created">) => void,
+    fn: (event: StripeEvent<"customer.created">, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     this.onEvents(["customer.created"], fn, options);
@@ -151,7 +152,7 @@ export class Stripe {
    * This typically happens after successful payment during checkout.
    */
   onSubscriptionCreated(
-    fn: (event: StripeEvent<"customer.subscription.created">) => void,
+    fn: (event: StripeEvent<"customer.subscription.created">, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     this.onEvents(["customer.subscription.created"], fn, options);
@@ -164,7 +165,7 @@ export class Stripe {
    * may still be active until the end of the current period.
    */
   onSubscriptionCanceled(
-    fn: (event: StripeEvent<"customer.subscription.deleted">) => void,
+    fn: (event: StripeEvent<"customer.subscription.deleted">, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     this.onEvents(["customer.subscription.deleted"], fn, options);
@@ -177,7 +178,7 @@ export class Stripe {
    * insufficient funds, declined card, or other payment issues.
    */
   onPaymentFailed(
-    fn: (event: StripeEvent<"payment_intent.payment_failed">) => void,
+    fn: (event: StripeEvent<"payment_intent.payment_failed">, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     this.onEvents(["payment_intent.payment_failed"], fn, options);
@@ -190,7 +191,7 @@ export class Stripe {
    * have been captured.
    */
   onPaymentSucceeded(
-    fn: (event: StripeEvent<"payment_intent.succeeded">) => void,
+    fn: (event: StripeEvent<"payment_intent.succeeded">, ctx: HandlerContext) => void,
     options?: StripeTriggerOptions,
   ): void {
     this.onEvents(["payment_intent.succeeded"], fn, options);
@@ -1,6 +1,6 @@
 import z from "zod";
 import { CommonTriggerBackendConfig, type CommonTriggerOptions } from "../../common.ts";
-import { registerEventListener } from "../../runtimeSupport.ts";
+import { type HandlerContext, registerEventListener } from "../../runtimeSupport.ts";
 
 export interface WebhookTriggerOptions extends CommonTriggerOptions {
   /**
@@ -80,13 +80,13 @@ export class Webhook {
    * ```
    */
   onWebhook(
-    fn: (event: WebhookEvent) => void,
+    fn: (event: WebhookEvent, ctx: HandlerContext) => void,
     options?: WebhookTriggerOptions,
   ): void {
     const config: WebhookTriggerBackendConfig = {
       method: options?.method,
     };
-    registerEventListener("webhook", fn, options, config);
+    registerEventListener("webhook", fn, options, config, WebhookTriggerBackendConfig);
   }
 
   /**
@@ -100,13 +100,13 @@ export class Webhook {
    * ```
    */
   onGet(
-    fn: (event: WebhookEvent) => void,
+    fn: (event: WebhookEvent, ctx: HandlerContext) => void,
     options?: CommonTriggerOptions,
   ): void {
     const config: WebhookTriggerBackendConfig = {
       method: "GET",
     };
-    registerEventListener("webhook", fn, options, config);
+    registerEventListener("webhook", fn, options, config, WebhookTriggerBackendConfig);
   }
 
   /**
@@ -121,12 +121,12 @@ export class Webhook {
    * ```
    */
   onPost(
-    fn: (event: WebhookEvent) => void,
+    fn: (event: WebhookEvent, ctx: HandlerContext) => void,
     options?: CommonTriggerOptions,
   ): void {
     const config: WebhookTriggerBackendConfig = {
       method: "POST",
     };
-    registerEventListener("webhook", fn, options, config);
+    registerEventListener("webhook", fn, options, config, WebhookTriggerBackendConfig);
   }
 }
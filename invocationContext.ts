@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Values that belong to a single `/__glue__/triggerEvent` invocation. These are
+ * scoped per request so that concurrent invocations never see each other's
+ * values.
+ */
+export interface InvocationContext {
+  /** The deployment id glue-backend sent along with the trigger event. */
+  glueDeploymentId: string | undefined;
+  /** The auth header to use when calling glue-backend's internal API. */
+  glueAuthHeader: string | undefined;
+  /** Aborted when the invocation is cancelled, such as when it times out. */
+  signal: AbortSignal;
+}
+
+const asyncLocalStorage = new AsyncLocalStorage<InvocationContext>();
+
+/**
+ * Runs `fn` with the given invocation context. Any code called by `fn`,
+ * including code that runs after awaits, sees this context from
+ * {@link getInvocationContext}.
+ */
+export function runInInvocationContext<T>(context: InvocationContext, fn: () => T): T {
+  return asyncLocalStorage.run(context, fn);
+}
+
+/**
+ * Returns the context of the invocation currently running, or `undefined` if
+ * called outside of an event handler.
+ */
+export function getInvocationContext(): InvocationContext | undefined {
+  return asyncLocalStorage.getStore();
+}
+
+/**
+ * Returns the abort signal of the invocation currently running.
+ *
+ * @throws If called outside of an event handler.
+ */
+export function getInvocationSignal(): AbortSignal {
+  const context = asyncLocalStorage.getStore();
+  if (!context) {
+    throw new Error("The invocation signal must only be used within an event handler.");
+  }
+  return context.signal;
+}
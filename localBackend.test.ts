@@ -0,0 +1,130 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { createHttpBackendClient } from "./backendClient.ts";
+import type { Registrations } from "./backendTypes.ts";
+import { startLocalBackend } from "./localBackend.ts";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, TriggerRequestVerifier } from "./triggerAuth.ts";
+
+const SIGNING_KEY = "test-signing-key";
+const AUTH = { glueDeploymentId: "local", glueAuthHeader: "Bearer local" };
+
+const registrations: Registrations = {
+  triggers: [],
+  accountInjections: [],
+  secretInjections: [{ label: "0", config: { name: "OPENAI_API_KEY" } }],
+};
+
+/**
+ * Serves the registrations the local backend looks secrets up in and captures
+ * the trigger events it sends.
+ */
+function startFakeRuntime() {
+  const verifier = new TriggerRequestVerifier(SIGNING_KEY);
+  const triggerEvents = Promise.withResolvers<
+    { event: unknown; headers: Headers; rejection: string | undefined }
+  >();
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen: () => {} }, async (req) => {
+    const { pathname } = new URL(req.url);
+    if (pathname === "/__glue__/getRegistrations") {
+      return Response.json(registrations);
+    }
+    const body = await req.text();
+    triggerEvents.resolve({
+      event: JSON.parse(body),
+      headers: req.headers,
+      rejection: await verifier.verify(
+        body,
+        req.headers.get(TIMESTAMP_HEADER) ?? undefined,
+        req.headers.get(SIGNATURE_HEADER) ?? undefined,
+      ),
+    });
+    return Response.json({ logs: [] });
+  });
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    triggerEvent: triggerEvents.promise,
+    server,
+  };
+}
+
+Deno.test("local backend", async (t) => {
+  const runtime = startFakeRuntime();
+  const localBackend = startLocalBackend({
+    dataFile: new URL("./testdata/localBackend.json", import.meta.url),
+    runtimeUrl: runtime.url,
+    signingKey: SIGNING_KEY,
+  });
+  const client = createHttpBackendClient(() => localBackend.url);
+
+  try {
+    await t.step("serves credentials by label", async () => {
+      assertEquals(await client.fetchCredential(AUTH, "google", "reporting-sheets"), {
+        accessToken: "sheets-token",
+      });
+    });
+
+    await t.step("serves credentials by type", async () => {
+      assertEquals(await client.fetchCredential(AUTH, "github", "0"), {
+        accessToken: "github-token",
+      });
+    });
+
+    await t.step("returns 404 for unknown credentials", async () => {
+      await assertRejects(
+        () => client.fetchCredential(AUTH, "slack", "0"),
+        Error,
+        "Failed to fetch credential: 404",
+      );
+    });
+
+    await t.step("serves secrets by name", async () => {
+      assertEquals(await client.fetchSecret(AUTH, "0"), "openai-key");
+      await assertRejects(
+        () => client.fetchSecret(AUTH, "1"),
+        Error,
+        "Failed to fetch secret: 404",
+      );
+    });
+
+    await t.step("fires delayed tasks as signed trigger events", async () => {
+      const request = {
+        data: { n: 1 },
+        at: Date.now() + 10,
+        idempotencyKey: "task-1",
+        traceparent: "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      };
+      await client.scheduleDelayedTask(AUTH, "task-0", request);
+      await client.scheduleDelayedTask(AUTH, "task-0", request);
+      assertEquals(localBackend.pendingTasks, [{
+        ...request,
+        deploymentId: "local",
+        label: "task-0",
+      }]);
+
+      const { event, headers, rejection } = await runtime.triggerEvent;
+      assertEquals(event, { type: "delayedTask", label: "task-0", data: { n: 1 } });
+      assertEquals(headers.get("X-Glue-Deployment-Id"), "local");
+      assertEquals(headers.get("X-Glue-API-Auth-Header"), "Bearer local");
+      assertEquals(headers.get("traceparent"), request.traceparent);
+      assertEquals(rejection, undefined);
+      assertEquals(localBackend.pendingTasks, []);
+    });
+
+    await t.step("holds delayed tasks due further out than a timer can wait", async () => {
+      const request = {
+        data: { n: 2 },
+        at: Date.now() + 30 * 24 * 60 * 60 * 1000,
+        idempotencyKey: "task-2",
+      };
+      await client.scheduleDelayedTask(AUTH, "task-1", request);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assertEquals(localBackend.pendingTasks, [{
+        ...request,
+        deploymentId: "local",
+        label: "task-1",
+      }]);
+    });
+  } finally {
+    await localBackend.shutdown();
+    await runtime.server.shutdown();
+  }
+});
@@ -0,0 +1,220 @@
+/**
+ * A stand-in for glue-backend's internal API, for developing and testing Glue
+ * scripts offline.
+ *
+ * It serves credentials and secrets from a local JSON file and stores delayed
+ * tasks in memory, firing them back at the runtime's
+ * `/__glue__/triggerEvent` endpoint when they are due. The file is read on
+ * every request, so it can be edited while the stand-in runs:
+ *
+ * ```json
+ * {
+ *   "credentials": {
+ *     "github": { "accessToken": "ghp_..." },
+ *     "reporting-sheets": { "accessToken": "ya29..." }
+ *   },
+ *   "secrets": {
+ *     "OPENAI_API_KEY": "sk-..."
+ *   }
+ * }
+ * ```
+ *
+ * Credentials are looked up by credential fetcher label first and then by type,
+ * and secrets by name.
+ *
+ * During `glue dev`, setting the `GLUE_LOCAL_BACKEND_FILE` environment variable
+ * to the path of such a file starts the stand-in within the runtime. It can
+ * also be run on its own, in which case `GLUE_API_SERVER` should point at it:
+ *
+ * ```sh
+ * deno run -A jsr:@streak-glue/runtime/localBackend local.json http://127.0.0.1:8001 8002
+ * ```
+ *
+ * @module
+ */
+
+import { Hono } from "hono";
+import z from "zod";
+import type { DelayedTaskScheduleRequest } from "./backendClient.ts";
+import type { Registrations } from "./backendTypes.ts";
+import { SIGNATURE_HEADER, signTriggerRequest, TIMESTAMP_HEADER } from "./triggerAuth.ts";
+
+/** The contents of a local backend data file. */
+export interface LocalBackendData {
+  /** Credentials by credential fetcher label or type. */
+  credentials?: Record<string, unknown>;
+  /** Secret values by secret name. */
+  secrets?: Record<string, string>;
+}
+
+export const LocalBackendData: z.ZodType<LocalBackendData> = z.object({
+  credentials: z.record(z.string(), z.unknown()).optional(),
+  secrets: z.record(z.string(), z.string()).optional(),
+});
+
+/** Options for {@link startLocalBackend}. */
+export interface LocalBackendOptions {
+  /** Path of the JSON file to serve credentials and secrets from. */
+  dataFile: string | URL;
+  /** Base URL of the runtime that delayed tasks are fired at. */
+  runtimeUrl: string;
+  /**
+   * Key to sign the trigger events of delayed tasks with, if the runtime
+   * requires signed requests.
+   */
+  signingKey?: string;
+  /**
+   * Port to listen on.
+   * @default 0, which picks a free port
+   */
+  port?: number;
+}
+
+/** A running local backend stand-in. */
+export interface LocalBackend {
+  /** Base URL to use as `GLUE_API_SERVER`. */
+  url: string;
+  /** Delayed tasks that are scheduled but haven't fired yet. */
+  readonly pendingTasks: ReadonlyArray<PendingDelayedTask>;
+  /** Cancels pending delayed tasks and stops the server. */
+  shutdown(): Promise<void>;
+}
+
+/** The longest delay `setTimeout` supports; longer delays fire immediately. */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/** A delayed task stored by the local backend. */
+export interface PendingDelayedTask extends DelayedTaskScheduleRequest {
+  deploymentId: string;
+  label: string;
+}
+
+/**
+ * Starts a local stand-in for glue-backend's internal API on 127.0.0.1.
+ */
+export function startLocalBackend(options: LocalBackendOptions): LocalBackend {
+  const pendingTasks = new Map<
+    string,
+    PendingDelayedTask & { timer: ReturnType<typeof setTimeout> }
+  >();
+
+  const readData = async (): Promise<LocalBackendData> =>
+    LocalBackendData.parse(JSON.parse(await Deno.readTextFile(options.dataFile)));
+
+  const fireDelayedTask = async (task: PendingDelayedTask, authHeader: string) => {
+    const body = JSON.stringify({ type: "delayedTask", label: task.label, data: task.data });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Glue-Deployment-Id": task.deploymentId,
+      "X-Glue-API-Auth-Header": authHeader,
+    };
+    if (task.traceparent) {
+      headers["traceparent"] = task.traceparent;
+    }
+    if (options.signingKey) {
+      const timestamp = Date.now();
+      headers[TIMESTAMP_HEADER] = String(timestamp);
+      headers[SIGNATURE_HEADER] = await signTriggerRequest(options.signingKey, timestamp, body);
+    }
+    try {
+      const res = await fetch(`${options.runtimeUrl}/__glue__/triggerEvent`, {
+        method: "POST",
+        body,
+        headers,
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status} ${res.statusText}`);
+      }
+      const { error } = await res.json() as { error?: string };
+      if (error) {
+        console.error(`Delayed task ${task.label} failed:\n${error}`);
+      }
+    } catch (e) {
+      console.error(`Failed to fire delayed task ${task.label}:`, e);
+    }
+  };
+
+  const app = new Hono().basePath("/glueInternal/deployments/:deploymentId");
+  app.get("/accountInjections/:type/:label", async (c) => {
+    const { credentials = {} } = await readData();
+    const { type, label } = c.req.param();
+    const credential = Object.hasOwn(credentials, label) ? credentials[label] : credentials[type];
+    if (credential === undefined) {
+      return c.json(
+        {
+          error: `No credential for label ${JSON.stringify(label)} or type ${JSON.stringify(type)}`,
+        },
+        404,
+      );
+    }
+    return c.json(credential);
+  });
+  app.get("/secretInjections/:label", async (c) => {
+    const { secrets = {} } = await readData();
+    const { label } = c.req.param();
+    const res = await fetch(`${options.runtimeUrl}/__glue__/getRegistrations`);
+    const registrations = await res.json() as Registrations;
+    const name = registrations.secretInjections?.find((secret) => secret.label === label)
+      ?.config.name;
+    const value = name === undefined ? undefined : secrets[name];
+    if (value === undefined) {
+      return c.json({ error: `No value for secret ${JSON.stringify(name ?? label)}` }, 404);
+    }
+    return c.json({ value });
+  });
+  app.post("/delayedTasks/:label/schedule", async (c) => {
+    const { deploymentId, label } = c.req.param();
+    const request = await c.req.json() as DelayedTaskScheduleRequest;
+    if (!pendingTasks.has(request.idempotencyKey)) {
+      const task = { ...request, deploymentId, label };
+      const authHeader = c.req.header("Authorization") ?? "";
+      // Tasks due further out than a timer can wait are re-armed until they're due.
+      const arm = () => {
+        const timer = setTimeout(() => {
+          if (request.at > Date.now()) {
+            arm();
+            return;
+          }
+          pendingTasks.delete(request.idempotencyKey);
+          void fireDelayedTask(task, authHeader);
+        }, Math.min(Math.max(0, request.at - Date.now()), MAX_TIMER_DELAY_MS));
+        pendingTasks.set(request.idempotencyKey, { ...task, timer });
+      };
+      arm();
+    }
+    return c.json({});
+  });
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: options.port ?? 0, onListen: () => {} },
+    app.fetch,
+  );
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    get pendingTasks() {
+      return Array.from(pendingTasks.values(), ({ timer: _timer, ...task }) => task);
+    },
+    async shutdown() {
+      for (const { timer } of pendingTasks.values()) {
+        clearTimeout(timer);
+      }
+      pendingTasks.clear();
+      await server.shutdown();
+    },
+  };
+}
+
+if (import.meta.main) {
+  const [dataFile, runtimeUrl, port] = Deno.args;
+  if (!dataFile || !runtimeUrl) {
+    console.error("Usage: localBackend.ts <data file> <runtime url> [port]");
+    Deno.exit(2);
+  }
+  const localBackend = startLocalBackend({
+    dataFile,
+    runtimeUrl,
+    signingKey: Deno.env.get("GLUE_TRIGGER_SIGNING_KEY"),
+    port: port ? Number(port) : undefined,
+  });
+  console.log(`Local backend listening at ${localBackend.url}`);
+}
@@ -0,0 +1,78 @@
+import { assertEquals } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+import { formatJsonLogLine, setLogFormat } from "./logging.ts";
+
+glue.debug.registerRawTrigger("leveled", () => {
+  glue.log.debug("Looking up order", { orderId: "ord_1" });
+  glue.log.info("Order shipped", { orderId: "ord_1", items: 2 });
+  glue.log.warn("Slow carrier response");
+  glue.log.error("Charge failed", { cause: new TypeError("card declined"), amount: 10n });
+  console.warn("console warning");
+  console.debug("console debug");
+  console.error("console error");
+}, { label: "leveled" });
+
+const harness = createTestHarness();
+
+Deno.test("logs keep their level and fields", async () => {
+  const { logs, error } = await harness.fire("leveled", "leveled", {});
+  assertEquals(error, undefined);
+  assertEquals(
+    logs.map(({ type, level, text, fields }) => ({ type, level, text, fields })),
+    [
+      {
+        type: "stdout",
+        level: "debug",
+        text: 'Looking up order {"orderId":"ord_1"}\n',
+        fields: { orderId: "ord_1" },
+      },
+      {
+        type: "stdout",
+        level: "info",
+        text: 'Order shipped {"orderId":"ord_1","items":2}\n',
+        fields: { orderId: "ord_1", items: 2 },
+      },
+      { type: "stdout", level: "warn", text: "Slow carrier response\n", fields: undefined },
+      {
+        type: "stderr",
+        level: "error",
+        text: logs[3].text,
+        fields: { cause: logs[3].fields!.cause, amount: "10" },
+      },
+      { type: "stdout", level: "warn", text: "console warning\n", fields: undefined },
+      { type: "stdout", level: "debug", text: "console debug\n", fields: undefined },
+      { type: "stderr", level: "error", text: "console error\n", fields: undefined },
+    ],
+  );
+  assertEquals(String(logs[3].fields!.cause).startsWith("TypeError: card declined"), true);
+  assertEquals("fields" in logs[4], false);
+});
+
+Deno.test("the json log format still collects invocation logs", async () => {
+  setLogFormat("json");
+  try {
+    const { logs } = await harness.fire("leveled", "leveled", {});
+    assertEquals(logs.length, 7);
+    assertEquals(logs[1].fields, { orderId: "ord_1", items: 2 });
+  } finally {
+    setLogFormat(undefined);
+  }
+});
+
+Deno.test("formatJsonLogLine writes one JSON object per log", () => {
+  assertEquals(
+    formatJsonLogLine({
+      timestamp: 1700000000000,
+      level: "info",
+      message: "Order shipped",
+      fields: { orderId: "ord_1" },
+      traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    }),
+    '{"timestamp":1700000000000,"level":"info","message":"Order shipped","fields":{"orderId":"ord_1"},"traceId":"4bf92f3577b34da6a3ce929d0e0e4736"}',
+  );
+  assertEquals(
+    formatJsonLogLine({ timestamp: 0, level: "warn", message: "no fields" }),
+    '{"timestamp":0,"level":"warn","message":"no fields"}',
+  );
+});
@@ -1,43 +1,141 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 import { serializeConsoleArgumentsToString } from "./logging/serialization.ts";
+import { getActiveSpan } from "./tracing.ts";
+
+/** How severe a log is. */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured values attached to a log, such as ids to search logs by. */
+export type LogFields = Record<string, unknown>;
 
 export interface Log {
   timestamp: number;
+  /**
+   * Where the log was written. Only `error` logs go to `stderr`; use `level`
+   * to tell the other levels apart.
+   */
   type: "stdout" | "stderr";
+  level: LogLevel;
   text: string;
+  /** The fields passed to `glue.log`, if any, as they serialize to JSON. */
+  fields?: LogFields;
+  /** The id of the trace the log was made in, if any. */
+  traceId?: string;
 }
 
 interface LogContext {
   logs: Log[] | undefined;
+  /** Called with each log as it is added, if the logs are being streamed. */
+  onLog: ((log: Log) => void) | undefined;
+}
+
+/**
+ * How logs are written to the process's output: `text` as the console writes
+ * them, or `json` as one JSON object per line for log pipelines to parse.
+ */
+export type LogFormat = "text" | "json";
+
+let logFormat: LogFormat | undefined;
+
+/** The log format, configured through the `GLUE_LOG_FORMAT` environment variable. */
+function getLogFormat(): LogFormat {
+  logFormat ??= Deno.env.get("GLUE_LOG_FORMAT") === "json" ? "json" : "text";
+  return logFormat;
+}
+
+/**
+ * @internal
+ * Overrides the log format set by the `GLUE_LOG_FORMAT` environment variable.
+ * Pass `undefined` to read the environment variable again.
+ */
+export function setLogFormat(format: LogFormat | undefined): void {
+  logFormat = format;
 }
 
 const originalConsoleMethods = { ...console };
 
+/**
+ * @internal
+ * Formats a log as a line of the `json` log format. Fields and the trace id
+ * are left out when there are none.
+ */
+export function formatJsonLogLine(
+  log: {
+    timestamp: number;
+    level: LogLevel;
+    message: string;
+    fields?: LogFields;
+    traceId?: string;
+  },
+): string {
+  const { timestamp, level, message, fields, traceId } = log;
+  return JSON.stringify({ timestamp, level, message, fields, traceId });
+}
+
+/**
+ * Writes a log to the process's output and adds it to the logs of the
+ * invocation it was made in, if any. In the `text` format, `printText` writes
+ * it to the output.
+ */
+function writeLog(
+  logContext: LogContext | undefined,
+  entry: { level: LogLevel; message: string; text: string; fields?: LogFields },
+  printText: () => void,
+) {
+  const timestamp = Date.now();
+  const traceId = getActiveSpan()?.traceId;
+  const type = entry.level === "error" ? "stderr" : "stdout";
+  if (getLogFormat() === "json") {
+    const print = type === "stderr" ? originalConsoleMethods.error : originalConsoleMethods.log;
+    print.call(console, formatJsonLogLine({ timestamp, ...entry, traceId }));
+  } else {
+    printText();
+  }
+  if (logContext?.logs) {
+    const log: Log = { timestamp, type, level: entry.level, text: entry.text };
+    if (entry.fields) {
+      log.fields = entry.fields;
+    }
+    if (traceId) {
+      log.traceId = traceId;
+    }
+    logContext.logs.push(log);
+    logContext.onLog?.(log);
+  }
+}
+
+/** Writes a log made with console-style arguments. */
+function writeConsoleLog(
+  logContext: LogContext | undefined,
+  level: LogLevel,
+  args: unknown[],
+  printText: () => void,
+) {
+  const message = serializeConsoleArgumentsToString(args);
+  writeLog(logContext, { level, message, text: message + "\n" }, printText);
+}
+
 const asyncLocalStorage = new AsyncLocalStorage<LogContext>();
 
 export function patchConsoleGlobal() {
-  const regularConsoleMethods: Array<keyof typeof console> = [
-    "log",
-    "error",
-    "warn",
-    "info",
-    "debug",
-    "table",
-  ];
-  for (const methodName of regularConsoleMethods) {
+  const levelsByConsoleMethod: Partial<Record<keyof typeof console, LogLevel>> = {
+    log: "info",
+    error: "error",
+    warn: "warn",
+    info: "info",
+    debug: "debug",
+    table: "info",
+  };
+  for (const methodName of Object.keys(levelsByConsoleMethod) as Array<keyof typeof console>) {
+    const level = levelsByConsoleMethod[methodName]!;
     const originalMethod = console[methodName];
     console[methodName] = (...args) => {
-      const logs = asyncLocalStorage.getStore()?.logs;
-      if (logs) {
-        const timestamp = Date.now();
-        const text = serializeConsoleArgumentsToString(args) + "\n";
-        logs.push({
-          timestamp,
-          type: methodName === "error" ? "stderr" : "stdout",
-          text,
-        });
-      }
-      return originalMethod.apply(console, args);
+      writeConsoleLog(
+        asyncLocalStorage.getStore(),
+        level,
+        args,
+        () => originalMethod.apply(console, args),
+      );
     };
   }
 
@@ -59,9 +157,10 @@ export function patchConsoleGlobal() {
 
 /** Used by tests so tests don't have to patch the console global */
 export function manualLog(log: Log) {
-  const logs = asyncLocalStorage.getStore()?.logs;
-  if (logs) {
-    logs.push(log);
+  const logContext = asyncLocalStorage.getStore();
+  if (logContext?.logs) {
+    logContext.logs.push(log);
+    logContext.onLog?.(log);
   } else {
     throw new Error("manualLog called outside of logging context");
   }
@@ -72,42 +171,117 @@ export interface Logger {
   error(...args: unknown[]): void;
 }
 
+/**
+ * Runs `fn` and captures what it logs. Logs are collected and returned once
+ * `fn` finishes; pass `onLog` to also receive each log as soon as it's made.
+ */
 export async function runInLoggingContext<T>(
   fn: (logger: Logger) => Awaitable<T>,
-): Promise<{ logs: Log[]; error: string | undefined }> {
+  onLog?: (log: Log) => void,
+): Promise<{ logs: Log[]; error: string | undefined; result: T | undefined }> {
   const logs: Log[] = [];
-  const logContext: LogContext = { logs };
+  const logContext: LogContext = { logs, onLog };
   const logger: Logger = {
     log: (...args) => {
-      const timestamp = Date.now();
-      originalConsoleMethods.log.apply(console, args);
-      logContext.logs?.push({
-        timestamp,
-        type: "stdout",
-        text: serializeConsoleArgumentsToString(args) + "\n",
-      });
+      writeConsoleLog(
+        logContext,
+        "info",
+        args,
+        () => originalConsoleMethods.log.apply(console, args),
+      );
     },
     error: (...args) => {
-      const timestamp = Date.now();
-      originalConsoleMethods.error.apply(console, args);
-      logContext.logs?.push({
-        timestamp,
-        type: "stderr",
-        text: serializeConsoleArgumentsToString(args) + "\n",
-      });
+      writeConsoleLog(
+        logContext,
+        "error",
+        args,
+        () => originalConsoleMethods.error.apply(console, args),
+      );
     },
   };
 
   let error: string | undefined;
+  let result: T | undefined;
   try {
-    await asyncLocalStorage.run(logContext, () => fn(logger));
+    result = await asyncLocalStorage.run(logContext, () => fn(logger));
   } catch (e) {
     logger.error(e);
     error = serializeConsoleArgumentsToString([e]);
   } finally {
     logContext.logs = undefined;
   }
-  return { logs, error };
+  return { logs, error, result };
 }
 
 type Awaitable<T> = PromiseLike<T> | T;
+
+/**
+ * Converts log fields to what they serialize to as JSON, so that they can be
+ * sent to glue-backend. Errors become their stack traces and bigints become
+ * strings. Returns `undefined` if the fields can't be serialized, such as when
+ * they contain a circular reference.
+ */
+function toJsonFields(fields: LogFields): LogFields | undefined {
+  try {
+    return JSON.parse(JSON.stringify(fields, (_key, value) => {
+      if (typeof value === "bigint") {
+        return String(value);
+      }
+      if (value instanceof Error) {
+        return serializeConsoleArgumentsToString([value]);
+      }
+      return value;
+    }));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Leveled logging with structured fields. Logs made inside an event handler are
+ * added to the invocation's logs along with their level and fields. Set the
+ * `GLUE_LOG_FORMAT` environment variable to `json` to write every log,
+ * including `console` logs, to the process's output as one JSON object per
+ * line.
+ *
+ * `console.debug`, `console.info`, `console.warn` and `console.error` log at
+ * the matching level, and `console.log` logs at the `info` level.
+ *
+ * @example
+ * ```typescript
+ * glue.stripe.onCustomerCreated((event) => {
+ *   glue.log.info("New customer", { customerId: event.data.object.id });
+ * });
+ * ```
+ */
+export class StructuredLogger {
+  debug(message: string, fields?: LogFields): void {
+    this.#write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.#write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.#write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.#write("error", message, fields);
+  }
+
+  #write(level: LogLevel, message: string, fields: LogFields | undefined) {
+    const args = fields ? [message, fields] : [message];
+    writeLog(
+      asyncLocalStorage.getStore(),
+      {
+        level,
+        message,
+        text: serializeConsoleArgumentsToString(args) + "\n",
+        fields: fields && toJsonFields(fields),
+      },
+      () => originalConsoleMethods[level].apply(console, args),
+    );
+  }
+}
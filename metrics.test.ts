@@ -0,0 +1,65 @@
+import { assertEquals } from "@std/assert";
+import { Counter, Histogram, renderMetrics } from "./metrics.ts";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+
+const credential = glue.debug.registerRawCredentialFetcher("metricsAccount", {});
+glue.debug.registerRawTrigger("cachedCredential", async () => {
+  for (let i = 0; i < 3; i++) {
+    await credential.get();
+  }
+});
+
+const harness = createTestHarness();
+harness.setCredential("metricsAccount", { accessToken: "token" });
+
+Deno.test("Counter renders a series per set of label values", () => {
+  const counter = new Counter("test_total", "A test counter.", ["type", "outcome"]);
+  counter.inc({ type: "webhook", outcome: "success" });
+  counter.inc({ type: "webhook", outcome: "success" }, 2);
+  counter.inc({ type: 'we"b\\hook\n', outcome: "error" });
+  assertEquals(
+    counter.render(),
+    [
+      "# HELP test_total A test counter.",
+      "# TYPE test_total counter",
+      'test_total{type="webhook",outcome="success"} 3',
+      'test_total{type="we\\"b\\\\hook\\n",outcome="error"} 1',
+    ].join("\n"),
+  );
+});
+
+Deno.test("Histogram renders cumulative buckets, sum and count", () => {
+  const histogram = new Histogram("test_seconds", "A test histogram.", ["type"], [0.1, 1]);
+  histogram.observe({ type: "cron" }, 0.05);
+  histogram.observe({ type: "cron" }, 0.5);
+  histogram.observe({ type: "cron" }, 2);
+  assertEquals(
+    histogram.render(),
+    [
+      "# HELP test_seconds A test histogram.",
+      "# TYPE test_seconds histogram",
+      'test_seconds_bucket{type="cron",le="0.1"} 1',
+      'test_seconds_bucket{type="cron",le="1"} 2',
+      'test_seconds_bucket{type="cron",le="+Inf"} 3',
+      'test_seconds_sum{type="cron"} 2.55',
+      'test_seconds_count{type="cron"} 3',
+    ].join("\n"),
+  );
+});
+
+Deno.test("credential cache hits aren't counted as backend calls", async () => {
+  const { error } = await harness.fire("cachedCredential", "1", {});
+  assertEquals(error, undefined);
+  const lines = renderMetrics().split("\n");
+  assertEquals(
+    lines.filter((line) => line.startsWith("glue_backend_calls_total{")),
+    ['glue_backend_calls_total{operation="credential",outcome="success"} 1'],
+  );
+  assertEquals(
+    lines.includes(
+      'glue_backend_call_duration_seconds_count{operation="credential",outcome="success"} 1',
+    ),
+    true,
+  );
+});
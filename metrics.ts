@@ -0,0 +1,192 @@
+/**
+ * Upper bounds of the duration histogram buckets, in seconds. They span quick
+ * API calls up to handlers that run for minutes.
+ */
+export const DURATION_BUCKETS_SECONDS: readonly number[] = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  30,
+  60,
+  120,
+  300,
+];
+
+function escapeLabelValue(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"').replaceAll("\n", "\\n");
+}
+
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+  if (names.length === 0) {
+    return "";
+  }
+  return `{${names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  return value === Infinity ? "+Inf" : String(value);
+}
+
+interface Metric {
+  /** Renders the metric in the Prometheus text exposition format. */
+  render(): string;
+}
+
+/** A Prometheus counter, with a separate series for each set of label values. */
+export class Counter<L extends string> implements Metric {
+  readonly #series = new Map<string, { labelValues: string[]; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[],
+  ) {}
+
+  inc(labels: Record<L, string>, value = 1): void {
+    const labelValues = this.labelNames.map((name) => labels[name]);
+    const key = JSON.stringify(labelValues);
+    const series = this.#series.get(key);
+    if (series) {
+      series.value += value;
+    } else {
+      this.#series.set(key, { labelValues, value });
+    }
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labelValues, value } of this.#series.values()) {
+      lines.push(`${this.name}${formatLabels(this.labelNames, labelValues)} ${formatValue(value)}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+/** A Prometheus histogram, with a separate series for each set of label values. */
+export class Histogram<L extends string> implements Metric {
+  readonly #series = new Map<
+    string,
+    { labelValues: string[]; bucketCounts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[],
+    readonly buckets: readonly number[] = DURATION_BUCKETS_SECONDS,
+  ) {}
+
+  observe(labels: Record<L, string>, value: number): void {
+    const labelValues = this.labelNames.map((name) => labels[name]);
+    const key = JSON.stringify(labelValues);
+    let series = this.#series.get(key);
+    if (!series) {
+      series = { labelValues, bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.#series.set(key, series);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        series.bucketCounts[i]++;
+      }
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    const bucketLabelNames = [...this.labelNames, "le"];
+    for (const { labelValues, bucketCounts, sum, count } of this.#series.values()) {
+      this.buckets.forEach((bucket, i) => {
+        const labels = formatLabels(bucketLabelNames, [...labelValues, formatValue(bucket)]);
+        lines.push(`${this.name}_bucket${labels} ${bucketCounts[i]}`);
+      });
+      const infLabels = formatLabels(bucketLabelNames, [...labelValues, "+Inf"]);
+      lines.push(`${this.name}_bucket${infLabels} ${count}`);
+      const labels = formatLabels(this.labelNames, labelValues);
+      lines.push(`${this.name}_sum${labels} ${sum}`);
+      lines.push(`${this.name}_count${labels} ${count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+/** How a handler invocation ended. */
+export type TriggerOutcome = "success" | "error" | "timeout";
+
+/** The calls handlers make to glue-backend through the runtime. */
+export type BackendOperation = "credential" | "secret" | "delayedTask";
+
+const triggerInvocations = new Counter(
+  "glue_trigger_invocations_total",
+  "Handler invocations by trigger and outcome.",
+  ["type", "label", "outcome"],
+);
+const triggerDuration = new Histogram(
+  "glue_trigger_duration_seconds",
+  "How long handler invocations took, including time spent waiting for a concurrency slot.",
+  ["type", "label", "outcome"],
+);
+const backendCalls = new Counter(
+  "glue_backend_calls_total",
+  "Credential fetches, secret fetches and delayed task schedules made by handlers.",
+  ["operation", "outcome"],
+);
+const backendCallDuration = new Histogram(
+  "glue_backend_call_duration_seconds",
+  "How long credential fetches, secret fetches and delayed task schedules took.",
+  ["operation", "outcome"],
+);
+
+const allMetrics: Metric[] = [
+  triggerInvocations,
+  triggerDuration,
+  backendCalls,
+  backendCallDuration,
+];
+
+/** Records a finished handler invocation. */
+export function recordTriggerInvocation(
+  type: string,
+  label: string,
+  outcome: TriggerOutcome,
+  durationSeconds: number,
+): void {
+  triggerInvocations.inc({ type, label, outcome });
+  triggerDuration.observe({ type, label, outcome }, durationSeconds);
+}
+
+/** Runs a call to glue-backend and records its outcome and duration. */
+export async function observeBackendCall<T>(
+  operation: BackendOperation,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const start = performance.now();
+  let outcome: "success" | "error" = "error";
+  try {
+    const result = await fn();
+    outcome = "success";
+    return result;
+  } finally {
+    backendCalls.inc({ operation, outcome });
+    backendCallDuration.observe({ operation, outcome }, (performance.now() - start) / 1000);
+  }
+}
+
+/**
+ * Renders every metric in the Prometheus text exposition format, as served on
+ * `/__glue__/metrics`. Like other requests from glue-backend, scrapes of that
+ * route must be signed unless the runtime runs in development mode without a
+ * signing key.
+ */
+export function renderMetrics(): string {
+  return allMetrics.map((metric) => metric.render()).join("\n") + "\n";
+}
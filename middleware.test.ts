@@ -0,0 +1,60 @@
+import { assertEquals } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+
+const events: string[] = [];
+
+glue.debug.registerRawTrigger("echo", (data) => {
+  events.push(`handler ${JSON.stringify(data)}`);
+});
+glue.debug.registerRawTrigger("failing", () => {
+  throw new Error("original error");
+});
+
+glue.use(async ({ type, label }, next) => {
+  events.push(`outer before ${type} ${label}`);
+  await next();
+  events.push("outer after");
+});
+glue.use(async (context, next) => {
+  if (context.type === "echo") {
+    context.data = { ...context.data as object, enriched: true };
+  }
+  try {
+    await next();
+  } catch (e) {
+    throw new Error(`translated: ${(e as Error).message}`);
+  }
+});
+glue.use(async (context, next) => {
+  if ((context.data as { skip?: boolean }).skip) {
+    events.push("skipped");
+    return;
+  }
+  await next();
+});
+
+const harness = createTestHarness();
+
+Deno.test("middleware runs around handlers in registration order", async () => {
+  events.length = 0;
+  const { error } = await harness.fire("echo", "0", { value: 1 });
+  assertEquals(error, undefined);
+  assertEquals(events, [
+    "outer before echo 0",
+    'handler {"value":1,"enriched":true}',
+    "outer after",
+  ]);
+});
+
+Deno.test("middleware can skip the handler", async () => {
+  events.length = 0;
+  const { error } = await harness.fire("echo", "0", { skip: true });
+  assertEquals(error, undefined);
+  assertEquals(events, ["outer before echo 0", "skipped", "outer after"]);
+});
+
+Deno.test("middleware can translate handler errors", async () => {
+  const { error } = await harness.fire("failing", "1", {});
+  assertEquals(error?.split("\n")[0], "Error: translated: original error");
+});
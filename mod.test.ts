@@ -1,6 +1,7 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertThrows } from "@std/assert";
 import { glue } from "./mod.ts";
-import type { Registrations, TriggerEvent } from "./backendTypes.ts";
+import type { Registrations, RuntimeInfo, TriggerEvent } from "./backendTypes.ts";
+import denoConfig from "./deno.json" with { type: "json" };
 
 Deno.test({
   name: "works",
@@ -8,153 +9,568 @@ Deno.test({
   sanitizeOps: false,
   sanitizeResources: false,
   fn: async (t) => {
-    const freePort = await getFreePort();
-    Deno.env.set("GLUE_DEV_PORT", freePort.toString());
-
-    let callCount = 0;
-    glue.webhook.onWebhook(() => {
-      callCount++;
-      console.log("webhook callback");
-    });
-    glue.debug.registerRawTrigger("internalTest", () => {
-      callCount++;
-      console.log("debug callback");
-    }, { custom: 123 });
-    const _testCredentialFetcher = glue.debug.registerRawCredentialFetcher("testAccount", {
-      scopes: ["foo"],
-    });
-    const _delayedTask = glue.tasks.createDelayedTask((event: { value: number }) => {
-      callCount++;
-      console.log(`delayed task callback: ${event.value}`);
-    });
-    const _secretFetcher = glue.secrets.createSecretFetcher("mySecret", {
-      description: "a test secret",
-    });
-
-    await Promise.resolve();
-
-    await t.step("getRegisteredTriggers", async () => {
-      const response = await fetch(
-        `http://127.0.0.1:${freePort}/__glue__/getRegistrations`,
+    const names = ["GLUE_DEV_PORT", "GLUE_API_SERVER"];
+    const previous = names.map((name) => [name, Deno.env.get(name)] as const);
+    try {
+      const freePort = await getFreePort();
+      Deno.env.set("GLUE_DEV_PORT", freePort.toString());
+
+      let callCount = 0;
+      glue.webhook.onWebhook(() => {
+        callCount++;
+        console.log("webhook callback");
+      });
+      // Registrations that fail validation don't consume automatic labels.
+      assertThrows(
+        () => glue.webhook.onPost(() => {}, { timeoutMs: -1 }),
+        Error,
+        "Invalid timeoutMs -1",
+      );
+      assertThrows(
+        () => glue.tasks.createDelayedTask(() => {}, { maxConcurrency: 0 }),
+        Error,
+        "Invalid maxConcurrency 0",
+      );
+      glue.debug.registerRawTrigger("internalTest", () => {
+        callCount++;
+        console.log("debug callback");
+      }, { custom: 123 });
+      const _testCredentialFetcher = glue.debug.registerRawCredentialFetcher("testAccount", {
+        scopes: ["foo"],
+      });
+      const _delayedTask = glue.tasks.createDelayedTask((event: { value: number }) => {
+        callCount++;
+        console.log(`delayed task callback: ${event.value}`);
+      });
+      const _secretFetcher = glue.secrets.createSecretFetcher("mySecret", {
+        description: "a test secret",
+      });
+      // The first concurrency test invocation waits for the second one to start
+      // before fetching its credential, so both are in flight at the same time.
+      const secondConcurrentInvocationStarted = Promise.withResolvers<void>();
+      glue.debug.registerRawTrigger("concurrencyTest", async (event) => {
+        const { invocation } = event as { invocation: number };
+        if (invocation === 1) {
+          await secondConcurrentInvocationStarted.promise;
+        } else {
+          secondConcurrentInvocationStarted.resolve();
+        }
+        const credential = await _testCredentialFetcher.get();
+        console.log(`invocation ${invocation}: ${JSON.stringify(credential)}`);
+      });
+
+      glue.drive.onDriveChangedBatch((changes) => {
+        console.log(`drive changes: ${changes.map((change) => change.fileId).join(", ")}`);
+      }, { label: "drive-batch" });
+
+      // Waits for the test to read the first streamed log before logging again,
+      // so the first log can only arrive if it was streamed.
+      const firstStreamedLogRead = Promise.withResolvers<void>();
+      glue.debug.registerRawTrigger("streamTest", async () => {
+        console.log("first");
+        await firstStreamedLogRead.promise;
+        console.log("second");
+      });
+
+      // Labeled registrations don't consume automatic labels.
+      glue.webhook.onPost(() => {}, { label: "stable-webhook" });
+      const _labeledSecretFetcher = glue.secrets.createSecretFetcher("otherSecret", {
+        label: "other-secret",
+      });
+      assertThrows(
+        () => glue.webhook.onGet(() => {}, { label: "stable-webhook" }),
+        Error,
+        'Can\'t register event listener with label "stable-webhook": the label is used by an existing event listener.',
+      );
+      assertThrows(
+        () => glue.secrets.createSecretFetcher("thirdSecret", { label: "stable-webhook" }),
+        Error,
+        'Can\'t register secret fetcher with label "stable-webhook": the label is used by an existing event listener.',
       );
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status}`);
+      assertThrows(
+        () => glue.webhook.onPost(() => {}, { label: "other-secret" }),
+        Error,
+        'Can\'t register event listener with label "other-secret": the label is used by an existing secret fetcher.',
+      );
+      assertThrows(
+        () => glue.webhook.onPost(() => {}, { label: "task-5" }),
+        Error,
+        'Invalid event listener label "task-5". Labels of the form "task-N" are reserved for the automatic labels of delayed tasks.',
+      );
+      for (const label of ["", "1", "has space", "a".repeat(65)]) {
+        assertThrows(
+          () => glue.webhook.onPost(() => {}, { label }),
+          Error,
+          "Invalid event listener label",
+        );
       }
-      const body = await response.json() as Registrations;
-      assertEquals(body, {
-        accountInjections: [
+      assertThrows(
+        () => glue.cron.onCron(5 as unknown as string, () => {}, { label: "bad-crontab" }),
+        Error,
+        'Invalid config for cron trigger "bad-crontab":\n✖ Invalid input: expected string, received number\n  → at crontab',
+      );
+      assertThrows(
+        () =>
+          glue.slack.onEvents(["message"], () => {}, {
+            label: "bad-selector",
+            accountSelector: { teamId: 5 as unknown as string },
+          }),
+        Error,
+        'Invalid config for slack trigger "bad-selector"',
+      );
+
+      // Stand-in for glue-backend that echoes back the auth header it was called
+      // with as the credential.
+      const fakeBackend = Deno.serve({
+        hostname: "127.0.0.1",
+        port: 0,
+        onListen: () => {},
+        handler: (req) =>
+          Response.json({
+            accessToken: `${new URL(req.url).pathname} ${req.headers.get("Authorization")}`,
+          }),
+      });
+      Deno.env.set("GLUE_API_SERVER", `http://127.0.0.1:${fakeBackend.addr.port}`);
+
+      await Promise.resolve();
+
+      await t.step("getRegisteredTriggers", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/getRegistrations`,
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json() as Registrations;
+        const sourceHash = body.triggers[3]?.fingerprint?.sourceHash;
+        assertEquals(typeof sourceHash, "string");
+        assertEquals(body, {
+          accountInjections: [
+            {
+              type: "testAccount",
+              label: "2",
+              config: { scopes: ["foo"] },
+            },
+          ],
+          triggers: [
+            { type: "webhook", label: "0", config: {} },
+            { type: "webhook", label: "stable-webhook", config: { method: "POST" } },
+            { type: "internalTest", label: "1", config: { custom: 123 } },
+            {
+              type: "delayedTask",
+              label: "task-0",
+              config: {},
+              fingerprint: { sourceHash: sourceHash! },
+            },
+            { type: "concurrencyTest", label: "4", config: {} },
+            {
+              type: "drive",
+              label: "drive-batch",
+              config: { watchConfig: { type: "changes" } },
+              batch: true,
+            },
+            { type: "streamTest", label: "5", config: {} },
+          ],
+          secretInjections: [
+            {
+              label: "3",
+              config: { name: "mySecret", description: "a test secret" },
+            },
+            {
+              label: "other-secret",
+              config: { name: "otherSecret" },
+            },
+          ],
+        });
+      });
+
+      await t.step("triggerEvent", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
           {
-            type: "testAccount",
-            label: "2",
-            config: { scopes: ["foo"] },
+            method: "POST",
+            body: JSON.stringify(
+              {
+                type: "webhook",
+                label: "0",
+                data: {},
+              } satisfies TriggerEvent,
+            ),
+            headers: { "Content-Type": "application/json" },
           },
-        ],
-        triggers: [
-          { type: "webhook", label: "0", config: {} },
-          { type: "internalTest", label: "1", config: { custom: 123 } },
-          { type: "delayedTask", label: "task-0", config: {} },
-        ],
-        secretInjections: [
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json();
+        assertEquals(body, {
+          logs: [
+            {
+              text: "webhook callback\n",
+              timestamp: body.logs[0]?.timestamp,
+              type: "stdout",
+              level: "info",
+              traceId: body.logs[0]?.traceId,
+            },
+          ],
+        });
+        assertEquals(callCount, 1);
+      });
+
+      await t.step("triggerEvent (debug)", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
           {
-            label: "3",
-            config: { name: "mySecret", description: "a test secret" },
+            method: "POST",
+            body: JSON.stringify(
+              {
+                type: "internalTest",
+                label: "1",
+                data: {},
+              } satisfies TriggerEvent,
+            ),
+            headers: {
+              "Content-Type": "application/json",
+              "traceparent": "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+            },
           },
-        ],
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json();
+        assertEquals(body, {
+          logs: [
+            {
+              text: "debug callback\n",
+              timestamp: body.logs[0]?.timestamp,
+              type: "stdout",
+              level: "info",
+              traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+            },
+          ],
+        });
+        assertEquals(callCount, 2);
       });
-    });
 
-    await t.step("triggerEvent", async () => {
-      const response = await fetch(
-        `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
-        {
-          method: "POST",
-          body: JSON.stringify(
-            {
-              type: "webhook",
-              label: "0",
-              data: {},
-            } satisfies TriggerEvent,
-          ),
-          headers: { "Content-Type": "application/json" },
-        },
-      );
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status}`);
-      }
-      const body = await response.json();
-      assertEquals(body, {
-        logs: [
+      await t.step("triggerEvent (delayedTask)", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
           {
-            text: "webhook callback\n",
-            timestamp: body.logs[0]?.timestamp,
-            type: "stdout",
+            method: "POST",
+            body: JSON.stringify(
+              {
+                type: "delayedTask",
+                label: "task-0",
+                data: { value: 42 },
+              } satisfies TriggerEvent,
+            ),
+            headers: { "Content-Type": "application/json" },
           },
-        ],
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json();
+        assertEquals(body, {
+          logs: [
+            {
+              text: "delayed task callback: 42\n",
+              timestamp: body.logs[0]?.timestamp,
+              type: "stdout",
+              level: "info",
+              traceId: body.logs[0]?.traceId,
+            },
+          ],
+        });
+        assertEquals(callCount, 3);
       });
-      assertEquals(callCount, 1);
-    });
 
-    await t.step("triggerEvent (debug)", async () => {
-      const response = await fetch(
-        `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
-        {
-          method: "POST",
-          body: JSON.stringify(
+      await t.step("concurrent triggerEvents use their own auth headers", async () => {
+        const fireConcurrencyTest = async (invocation: number) => {
+          const response = await fetch(
+            `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
             {
-              type: "internalTest",
-              label: "1",
-              data: {},
-            } satisfies TriggerEvent,
-          ),
-          headers: { "Content-Type": "application/json" },
-        },
-      );
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status}`);
-      }
-      const body = await response.json();
-      assertEquals(body, {
-        logs: [
+              method: "POST",
+              body: JSON.stringify(
+                {
+                  type: "concurrencyTest",
+                  label: "4",
+                  data: { invocation },
+                } satisfies TriggerEvent,
+              ),
+              headers: {
+                "Content-Type": "application/json",
+                "X-Glue-Deployment-Id": `deployment-${invocation}`,
+                "X-Glue-API-Auth-Header": `auth-${invocation}`,
+              },
+            },
+          );
+          if (!response.ok) {
+            throw new Error(`Failed to fetch: ${response.status}`);
+          }
+          return await response.json();
+        };
+
+        const [body1, body2] = await Promise.all([
+          fireConcurrencyTest(1),
+          fireConcurrencyTest(2),
+        ]);
+        assertEquals(body1.logs.map((log: { text: string }) => log.text), [
+          `invocation 1: {"accessToken":"/glueInternal/deployments/deployment-1/accountInjections/testAccount/2 auth-1"}\n`,
+        ]);
+        assertEquals(body1.error, undefined);
+        assertEquals(body2.logs.map((log: { text: string }) => log.text), [
+          `invocation 2: {"accessToken":"/glueInternal/deployments/deployment-2/accountInjections/testAccount/2 auth-2"}\n`,
+        ]);
+        assertEquals(body2.error, undefined);
+      });
+
+      await t.step("triggerEventBatch", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEventBatch`,
+          {
+            method: "POST",
+            body: JSON.stringify(
+              [
+                { type: "drive", label: "drive-batch", data: { fileId: "a" } },
+                { type: "webhook", label: "0", data: {} },
+                { type: "drive", label: "drive-batch", data: { fileId: "b" } },
+              ] satisfies TriggerEvent[],
+            ),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json() as Array<{ logs: Array<{ text: string }> }>;
+        assertEquals(body.map(({ logs }) => logs.map((log) => log.text)), [
+          ["drive changes: a, b\n"],
+          ["webhook callback\n"],
+          ["drive changes: a, b\n"],
+        ]);
+        assertEquals(callCount, 4);
+      });
+
+      await t.step("triggerEvent (batch listener)", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
+          {
+            method: "POST",
+            body: JSON.stringify(
+              {
+                type: "drive",
+                label: "drive-batch",
+                data: { fileId: "c" },
+              } satisfies TriggerEvent,
+            ),
+            headers: { "Content-Type": "application/json" },
+          },
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json();
+        assertEquals(body.logs.map((log: { text: string }) => log.text), ["drive changes: c\n"]);
+      });
+
+      await t.step("triggerEvent (NDJSON stream)", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
+          {
+            method: "POST",
+            body: JSON.stringify(
+              { type: "streamTest", label: "5", data: {} } satisfies TriggerEvent,
+            ),
+            headers: { "Content-Type": "application/json", "Accept": "application/x-ndjson" },
+          },
+        );
+        assertEquals(response.headers.get("Content-Type"), "application/x-ndjson");
+        const records = [];
+        let buffered = "";
+        for await (const chunk of response.body!.pipeThrough(new TextDecoderStream())) {
+          buffered += chunk;
+          const lines = buffered.split("\n");
+          buffered = lines.pop()!;
+          for (const line of lines) {
+            const record = JSON.parse(line);
+            records.push(record);
+            if (record.type === "log" && record.log.text === "first\n") {
+              firstStreamedLogRead.resolve();
+            }
+          }
+        }
+        assertEquals(records, [
+          {
+            type: "log",
+            log: {
+              type: "stdout",
+              level: "info",
+              text: "first\n",
+              timestamp: records[0].log.timestamp,
+              traceId: records[0].log.traceId,
+            },
+          },
+          {
+            type: "log",
+            log: {
+              type: "stdout",
+              level: "info",
+              text: "second\n",
+              timestamp: records[1].log.timestamp,
+              traceId: records[0].log.traceId,
+            },
+          },
+          { type: "result" },
+        ]);
+      });
+
+      await t.step("triggerEvent (SSE stream)", async () => {
+        const response = await fetch(
+          `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
           {
-            text: "debug callback\n",
-            timestamp: body.logs[0]?.timestamp,
-            type: "stdout",
+            method: "POST",
+            body: JSON.stringify(
+              { type: "webhook", label: "missing", data: {} } satisfies TriggerEvent,
+            ),
+            headers: { "Content-Type": "application/json", "Accept": "text/event-stream" },
           },
-        ],
+        );
+        assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+        const text = await response.text();
+        const events = text.split("\n\n").filter(Boolean).map((event) => event.split("\n"));
+        assertEquals(events.map((lines) => lines[0]), ["event: log", "event: result"]);
+        const result = JSON.parse(events[1][1].slice("data: ".length));
+        assertEquals(result.error.split("\n")[0], "Error: Unknown trigger: webhook missing");
       });
-      assertEquals(callCount, 2);
-    });
 
-    await t.step("triggerEvent (delayedTask)", async () => {
-      const response = await fetch(
-        `http://127.0.0.1:${freePort}/__glue__/triggerEvent`,
-        {
+      await t.step("health", async () => {
+        const response = await fetch(`http://127.0.0.1:${freePort}/__glue__/health`);
+        assertEquals(response.status, 200);
+        assertEquals(await response.json(), { status: "ok" });
+      });
+
+      await t.step("info", async () => {
+        await fetch(`http://127.0.0.1:${freePort}/__glue__/triggerEvent`, {
           method: "POST",
-          body: JSON.stringify(
-            {
-              type: "delayedTask",
-              label: "task-0",
-              data: { value: 42 },
-            } satisfies TriggerEvent,
-          ),
+          body: JSON.stringify({ type: "webhook", label: "missing", data: {} }),
           headers: { "Content-Type": "application/json" },
-        },
-      );
-      if (!response.ok) {
-        throw new Error(`Failed to fetch: ${response.status}`);
-      }
-      const body = await response.json();
-      assertEquals(body, {
-        logs: [
-          {
-            text: "delayed task callback: 42\n",
-            timestamp: body.logs[0]?.timestamp,
-            type: "stdout",
+        }).then((response) => response.body?.cancel());
+
+        const response = await fetch(`http://127.0.0.1:${freePort}/__glue__/info`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        const body = await response.json() as RuntimeInfo;
+        assertEquals(body, {
+          runtimeVersion: denoConfig.version,
+          denoVersion: Deno.version.deno,
+          uptimeMs: body.uptimeMs,
+          inFlightInvocations: 0,
+          registrationCounts: {
+            triggers: {
+              webhook: 2,
+              internalTest: 1,
+              delayedTask: 1,
+              concurrencyTest: 1,
+              drive: 1,
+              streamTest: 1,
+            },
+            accountInjections: { testAccount: 1 },
+            secretInjections: 2,
           },
-        ],
+          lastError: {
+            type: "webhook",
+            label: "missing",
+            message: "Error: Unknown trigger: webhook missing",
+            timestamp: body.lastError!.timestamp,
+          },
+        });
       });
-      assertEquals(callCount, 3);
-    });
+
+      await t.step("metrics", async () => {
+        const response = await fetch(`http://127.0.0.1:${freePort}/__glue__/metrics`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch: ${response.status}`);
+        }
+        assertEquals(
+          response.headers.get("Content-Type"),
+          "text/plain; version=0.0.4; charset=utf-8",
+        );
+        const lines = (await response.text()).split("\n");
+        for (
+          const line of [
+            "# TYPE glue_trigger_invocations_total counter",
+            'glue_trigger_invocations_total{type="webhook",label="0",outcome="success"} 2',
+            'glue_trigger_invocations_total{type="internalTest",label="1",outcome="success"} 1',
+            'glue_trigger_duration_seconds_count{type="webhook",label="0",outcome="success"} 2',
+            'glue_trigger_duration_seconds_bucket{type="webhook",label="0",outcome="success",le="+Inf"} 2',
+            'glue_backend_calls_total{operation="credential",outcome="success"} 2',
+          ]
+        ) {
+          assertEquals(lines.includes(line), true, `Missing metrics line: ${line}`);
+        }
+      });
+
+      await t.step("pauseTrigger and resumeTrigger", async () => {
+        const post = (path: string, body: unknown) =>
+          fetch(`http://127.0.0.1:${freePort}/__glue__/${path}`, {
+            method: "POST",
+            body: JSON.stringify(body),
+            headers: { "Content-Type": "application/json" },
+          });
+
+        const pauseResponse = await post("pauseTrigger", {
+          label: "stable-webhook",
+          mode: "buffer",
+        });
+        assertEquals(pauseResponse.status, 200);
+        const status = await pauseResponse.json();
+        assertEquals(status, {
+          mode: "buffer",
+          since: status.since,
+          bufferedEvents: 0,
+          droppedEvents: 0,
+        });
+
+        const triggerResponse = await post("triggerEvent", {
+          type: "webhook",
+          label: "stable-webhook",
+          data: { method: "POST", urlParams: {}, headers: {} },
+        });
+        const { logs } = await triggerResponse.json() as { logs: Array<{ text: string }> };
+        assertEquals(logs.map((log) => log.text), [
+          "Buffered webhook event until trigger stable-webhook is resumed\n",
+        ]);
+
+        const registrations = await fetch(`http://127.0.0.1:${freePort}/__glue__/getRegistrations`)
+          .then((response) => response.json()) as Registrations;
+        assertEquals(
+          registrations.triggers.find((trigger) => trigger.label === "stable-webhook")?.paused,
+          { mode: "buffer", since: status.since, bufferedEvents: 1, droppedEvents: 0 },
+        );
+
+        const resumeResponse = await post("resumeTrigger", { label: "stable-webhook" });
+        assertEquals(await resumeResponse.json(), { replayedEvents: 1 });
+
+        const missingResponse = await post("pauseTrigger", { label: "missing" });
+        assertEquals(missingResponse.status, 404);
+        assertEquals(await missingResponse.json(), {
+          error: 'No trigger is registered with label "missing"',
+        });
+      });
+
+      await fakeBackend.shutdown();
+    } finally {
+      for (const [name, value] of previous) {
+        if (value === undefined) {
+          Deno.env.delete(name);
+        } else {
+          Deno.env.set(name, value);
+        }
+      }
+    }
   },
 });
 
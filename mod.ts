@@ -36,6 +36,20 @@ import { Tasks } from "./tasks.ts";
 export type { Tasks };
 import { Secrets } from "./secrets.ts";
 export type { Secrets };
+import { Trace } from "./tracing.ts";
+export type { Trace };
+import { Triggers } from "./triggers.ts";
+export type { Triggers };
+import { StructuredLogger } from "./logging.ts";
+export type { StructuredLogger };
+import { getInvocationSignal } from "./invocationContext.ts";
+import {
+  type HandlerErrorContext,
+  type Middleware,
+  registerErrorHandler,
+  registerMiddleware,
+  registerShutdownHook,
+} from "./runtimeSupport.ts";
 export type { GoogleCredentialFetcherOptions } from "./integrations/google/runtime.ts";
 export type { GmailMessageEvent, GmailTriggerOptions } from "./integrations/gmail/runtime.ts";
 export type {
@@ -90,14 +104,29 @@ export type {
   AccessTokenCredential,
   ApiKeyCredential,
   CredentialFetcher,
+  CredentialFetchOptions,
+  HandlerContext,
+  HandlerErrorContext,
+  Middleware,
+  MiddlewareContext,
 } from "./runtimeSupport.ts";
 export type { DelayedTask, DelayedTaskScheduleOptions } from "./tasks.ts";
 export type { DelayedTaskSchedule, DelayedTaskTimePeriod } from "./tasks/schedule.ts";
 export type { SecretFetcher, SecretFetcherOptions } from "./secrets.ts";
+export type { Span, SpanAttributes, SpanContext } from "./tracing.ts";
+export type { Log, LogFields, Logger, LogLevel } from "./logging.ts";
+export type {
+  PauseTriggerOptions,
+  ResumeTriggerOptions,
+  TriggerPauseMode,
+  TriggerPauseStatus,
+} from "./triggers.ts";
 export type {
   CommonCredentialFetcherOptions,
   CommonTriggerOptions,
   CommonTriggerWithAccountOptions,
+  DedupeOptions,
+  RetryPolicy,
 } from "./common.ts";
 
 /**
@@ -216,6 +245,105 @@ class Glue {
    * to environment variables for Glue scripts.
    */
   readonly secrets: Secrets = new Secrets();
+
+  /**
+   * Tracing utilities for timing parts of an event handler in the invocation's
+   * trace.
+   */
+  readonly trace: Trace = new Trace();
+
+  /**
+   * Pause and resume triggers while the Glue is running, dropping or buffering
+   * their events in the meantime.
+   */
+  readonly triggers: Triggers = new Triggers();
+
+  /**
+   * Leveled logging with structured fields, which are kept with the log so
+   * logs can be searched by them.
+   */
+  readonly log: StructuredLogger = new StructuredLogger();
+
+  /**
+   * The abort signal of the event handler currently running. It is aborted
+   * when the handler exceeds its `timeoutMs`. Pass it to `fetch` calls and SDK
+   * clients so their requests are cancelled along with the handler.
+   *
+   * @example
+   * ```typescript
+   * glue.webhook.onPost(async () => {
+   *   const res = await fetch("https://example.com/slow", { signal: glue.signal });
+   *   // ...
+   * }, { timeoutMs: 10_000 });
+   * ```
+   *
+   * @throws If accessed outside of an event handler.
+   */
+  get signal(): AbortSignal {
+    return getInvocationSignal();
+  }
+
+  /**
+   * Registers a function to run when the Glue is shut down, such as when a new
+   * version is deployed. It runs after in-flight event handlers have finished,
+   * so it can be used to flush buffered data. Shutdown hooks and handlers
+   * together get a bounded grace period, after which the process exits anyway.
+   *
+   * @example
+   * ```typescript
+   * const pendingRows: string[][] = [];
+   *
+   * glue.onShutdown(async () => {
+   *   await appendRows(pendingRows);
+   * });
+   * ```
+   */
+  onShutdown(fn: () => void | Promise<void>): void {
+    registerShutdownHook(fn);
+  }
+
+  /**
+   * Registers a function to run whenever an event handler fails, after any
+   * retries from `retryOnFailure` have been used up or the handler timed out.
+   * It runs within the failed invocation, so it can use credential and secret
+   * fetchers, and anything it logs is included in the invocation's logs. The
+   * invocation is still reported as failed with the handler's error.
+   *
+   * @example
+   * ```typescript
+   * glue.onError(async (error, { type, label, data }) => {
+   *   await postToSlack(`The ${type} trigger ${label} failed: ${error}`);
+   *   await saveFailedEvent({ type, label, data });
+   * });
+   * ```
+   */
+  onError(fn: (error: unknown, context: HandlerErrorContext) => void | Promise<void>): void {
+    registerErrorHandler(fn);
+  }
+
+  /**
+   * Registers middleware that runs around every event handler invocation.
+   * Middleware runs in registration order, each wrapping the ones registered
+   * after it, and receives the trigger's type, label and event data along with
+   * a `next()` function that runs the rest of the chain and then the handler.
+   * Middleware runs once per invocation, outside of any retries, and counts
+   * towards the handler's `timeoutMs`.
+   *
+   * @example
+   * ```typescript
+   * glue.use(async ({ type, label }, next) => {
+   *   const start = Date.now();
+   *   try {
+   *     await next();
+   *   } finally {
+   *     console.log(`${type} ${label} took ${Date.now() - start}ms`);
+   *   }
+   * });
+   * ```
+   */
+  use(middleware: Middleware): void {
+    registerMiddleware(middleware);
+  }
 }
 
 export type { Glue };
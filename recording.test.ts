@@ -0,0 +1,30 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  parseRecordedTriggerEvents,
+  type RecordedTriggerEvent,
+  serializeRecordedTriggerEvent,
+} from "./recording.ts";
+
+const EVENT: RecordedTriggerEvent = {
+  type: "webhook",
+  label: "0",
+  data: { method: "POST", urlParams: {}, headers: {}, bodyText: "hi\nthere" },
+  headers: { "X-Glue-Deployment-Id": "deployment-1" },
+  timestamp: 1_750_000_000_000,
+};
+
+Deno.test("recorded events round trip through a recording file", () => {
+  const text = serializeRecordedTriggerEvent(EVENT) +
+    serializeRecordedTriggerEvent({ ...EVENT, label: "1" });
+  assertEquals(parseRecordedTriggerEvents(text), [EVENT, { ...EVENT, label: "1" }]);
+});
+
+Deno.test("parseRecordedTriggerEvents skips blank lines", () => {
+  const text = "\n" + serializeRecordedTriggerEvent(EVENT) + "\n  \n";
+  assertEquals(parseRecordedTriggerEvents(text), [EVENT]);
+});
+
+Deno.test("parseRecordedTriggerEvents reports the invalid line", () => {
+  const text = serializeRecordedTriggerEvent(EVENT) + '{"type":"webhook"}\n';
+  assertThrows(() => parseRecordedTriggerEvents(text), Error, "Invalid recorded event on line 2");
+});
@@ -0,0 +1,64 @@
+/**
+ * Recording of received trigger events to a JSONL file, so that they can be
+ * replayed locally later with `replay.ts`.
+ *
+ * @module
+ */
+
+import { z } from "zod";
+import type { TriggerEvent } from "./backendTypes.ts";
+
+/**
+ * Request headers saved along with recorded events. The auth header is
+ * deliberately not recorded since it is a credential.
+ */
+export const RECORDED_HEADERS: readonly string[] = ["X-Glue-Deployment-Id"];
+
+/** A trigger event as it was received by the runtime. */
+export interface RecordedTriggerEvent extends TriggerEvent {
+  /** The values of the {@link RECORDED_HEADERS} present on the request. */
+  headers: Record<string, string>;
+  /** When the event was received, in milliseconds since the epoch. */
+  timestamp: number;
+}
+
+export const RecordedTriggerEvent: z.ZodType<RecordedTriggerEvent> = z.object({
+  type: z.string(),
+  label: z.string(),
+  data: z.unknown(),
+  headers: z.record(z.string(), z.string()),
+  timestamp: z.number(),
+});
+
+/** Serializes a recorded event as one line of a recording file. */
+export function serializeRecordedTriggerEvent(event: RecordedTriggerEvent): string {
+  return JSON.stringify(event) + "\n";
+}
+
+/**
+ * Parses the contents of a recording file.
+ *
+ * @throws If any line isn't a valid recorded event.
+ */
+export function parseRecordedTriggerEvents(text: string): RecordedTriggerEvent[] {
+  const events: RecordedTriggerEvent[] = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      events.push(RecordedTriggerEvent.parse(JSON.parse(line)));
+    } catch (e) {
+      throw new Error(`Invalid recorded event on line ${index + 1}`, { cause: e });
+    }
+  }
+  return events;
+}
+
+/** Appends a received event to the recording file at `path`. */
+export async function recordTriggerEvent(
+  path: string,
+  event: RecordedTriggerEvent,
+): Promise<void> {
+  await Deno.writeTextFile(path, serializeRecordedTriggerEvent(event), { append: true });
+}
@@ -0,0 +1,37 @@
+import { assertEquals } from "@std/assert";
+import { loadGlueScript } from "./testing.ts";
+import { replayRecordedEvents } from "./replay.ts";
+import type { RecordedTriggerEvent } from "./recording.ts";
+
+const harness = await loadGlueScript(new URL("./testdata/exampleGlue.ts", import.meta.url));
+harness.setSecret("example api key", "secret-value");
+
+const webhookEvent = { urlParams: {}, headers: {} };
+
+Deno.test("replayRecordedEvents runs each recorded event in order", async () => {
+  const events: RecordedTriggerEvent[] = [
+    {
+      type: "webhook",
+      label: "3",
+      data: { ...webhookEvent, method: "POST" },
+      headers: { "X-Glue-Deployment-Id": "deployment-1" },
+      timestamp: 1_750_000_000_000,
+    },
+    {
+      type: "webhook",
+      label: "4",
+      data: { ...webhookEvent, method: "GET" },
+      headers: {},
+      timestamp: 1_750_000_001_000,
+    },
+  ];
+  const results = await replayRecordedEvents(events);
+  assertEquals(results.length, 2);
+
+  assertEquals(results[0].event, events[0]);
+  assertEquals(results[0].logs.map((log) => log.text), ["api key: secret-value\n"]);
+  assertEquals(results[0].error, undefined);
+
+  assertEquals(results[1].event, events[1]);
+  assertEquals(results[1].error?.split("\n")[0], "Error: GET is not supported");
+});
@@ -0,0 +1,103 @@
+/**
+ * Replays trigger events recorded by the runtime against the current version
+ * of a Glue script.
+ *
+ * Events are recorded during `glue dev` when the `GLUE_RECORD_EVENTS_FILE`
+ * environment variable names a file to append them to. To replay them:
+ *
+ * ```sh
+ * deno run -A jsr:@streak-glue/runtime/replay myGlue.ts events.jsonl
+ * ```
+ *
+ * Replays can also be driven from a test using
+ * `@streak-glue/runtime/testing`, in which case credentials, secrets and
+ * delayed tasks are served by the test harness's fakes:
+ *
+ * ```typescript
+ * const harness = await loadGlueScript(new URL("./myGlue.ts", import.meta.url));
+ * harness.setCredential("github", { accessToken: "fake-token" });
+ * const results = await replayRecordedEvents(new URL("./events.jsonl", import.meta.url));
+ * ```
+ *
+ * @module
+ */
+
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseRecordedTriggerEvents, type RecordedTriggerEvent } from "./recording.ts";
+import { disableServer, invokeTrigger, type TriggerEventResponse } from "./runtimeSupport.ts";
+
+export type { RecordedTriggerEvent };
+
+/** Options for {@link replayRecordedEvents}. */
+export interface ReplayOptions {
+  /**
+   * The auth header handlers use when calling glue-backend. Recordings don't
+   * include the original auth header.
+   * @default "replay"
+   */
+  glueAuthHeader?: string;
+}
+
+/** The outcome of replaying one recorded event. */
+export interface ReplayResult extends TriggerEventResponse {
+  /** The event that was replayed. */
+  event: RecordedTriggerEvent;
+}
+
+/**
+ * Runs the handlers for recorded events one at a time, in the order they were
+ * recorded, and returns the logs and error of each.
+ *
+ * @param events The recorded events, or the path or URL of a recording file.
+ */
+export async function replayRecordedEvents(
+  events: RecordedTriggerEvent[] | string | URL,
+  options?: ReplayOptions,
+): Promise<ReplayResult[]> {
+  const recordedEvents = Array.isArray(events)
+    ? events
+    : parseRecordedTriggerEvents(await Deno.readTextFile(events));
+
+  const results: ReplayResult[] = [];
+  for (const event of recordedEvents) {
+    const { logs, error, result } = await invokeTrigger(
+      { type: event.type, label: event.label, data: event.data },
+      {
+        glueDeploymentId: event.headers["X-Glue-Deployment-Id"] ?? "replay",
+        glueAuthHeader: options?.glueAuthHeader ?? "replay",
+      },
+    );
+    results.push({ event, logs, error, result });
+  }
+  return results;
+}
+
+if (import.meta.main) {
+  const [scriptPath, recordingPath] = Deno.args;
+  if (!scriptPath || !recordingPath) {
+    console.error("Usage: replay.ts <glue script> <recording file>");
+    Deno.exit(2);
+  }
+  disableServer();
+  await import(String(pathToFileURL(resolve(scriptPath))));
+  // Let the runtime finish initializing now that the script has registered
+  // everything.
+  await Promise.resolve();
+
+  const results = await replayRecordedEvents(recordingPath);
+  let failures = 0;
+  for (const [index, { event, error }] of results.entries()) {
+    const description = `[${index + 1}/${results.length}] ${event.type} ${
+      JSON.stringify(event.label)
+    } recorded at ${new Date(event.timestamp).toISOString()}`;
+    if (error) {
+      failures++;
+      console.error(`${description}: failed\n${error}`);
+    } else {
+      console.log(`${description}: ok`);
+    }
+  }
+  console.log(`Replayed ${results.length} events, ${failures} failed.`);
+  Deno.exit(failures ? 1 : 0);
+}
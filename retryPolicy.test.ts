@@ -0,0 +1,141 @@
+import { assertEquals, assertLess, assertRejects, assertThrows } from "@std/assert";
+import { type ResolvedRetryPolicy, resolveRetryPolicy, runWithRetries } from "./retryPolicy.ts";
+
+const IMMEDIATE: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 0,
+  maxDelayMs: 0,
+  multiplier: 1,
+  jitter: 0,
+};
+
+Deno.test("resolveRetryPolicy applies defaults", () => {
+  assertEquals(resolveRetryPolicy(undefined), undefined);
+  assertEquals(resolveRetryPolicy(false), undefined);
+  assertEquals(resolveRetryPolicy(true), {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 60_000,
+    multiplier: 2,
+    jitter: 1,
+    shouldRetry: undefined,
+  });
+  assertEquals(resolveRetryPolicy({ maxAttempts: 2, jitter: 0 })?.maxAttempts, 2);
+});
+
+Deno.test("resolveRetryPolicy rejects invalid policies", () => {
+  assertThrows(() => resolveRetryPolicy({ maxAttempts: 0 }), Error, "maxAttempts");
+  assertThrows(() => resolveRetryPolicy({ maxAttempts: 1.5 }), Error, "maxAttempts");
+  assertThrows(() => resolveRetryPolicy({ initialDelayMs: -1 }), Error, "initialDelayMs");
+  assertThrows(
+    () => resolveRetryPolicy({ initialDelayMs: 100, maxDelayMs: 10 }),
+    Error,
+    "maxDelayMs",
+  );
+  assertThrows(() => resolveRetryPolicy({ multiplier: 0.5 }), Error, "multiplier");
+  assertThrows(() => resolveRetryPolicy({ jitter: 2 }), Error, "jitter");
+});
+
+Deno.test("runWithRetries retries until the function succeeds", async () => {
+  const retries: number[] = [];
+  let calls = 0;
+  const result = await runWithRetries(
+    () => {
+      if (++calls < 3) {
+        throw new Error("transient");
+      }
+      return "done";
+    },
+    IMMEDIATE,
+    new AbortController().signal,
+    (_error, attempt) => retries.push(attempt),
+  );
+  assertEquals(result, "done");
+  assertEquals(retries, [1, 2]);
+});
+
+Deno.test("runWithRetries gives up after maxAttempts", async () => {
+  const retries: number[] = [];
+  let calls = 0;
+  await assertRejects(
+    () =>
+      runWithRetries(
+        () => {
+          throw new Error(`attempt ${++calls} failed`);
+        },
+        IMMEDIATE,
+        new AbortController().signal,
+        (_error, attempt) => retries.push(attempt),
+      ),
+    Error,
+    "attempt 3 failed",
+  );
+  assertEquals(calls, 3);
+  assertEquals(retries, [1, 2]);
+});
+
+Deno.test("runWithRetries only retries errors shouldRetry accepts", async () => {
+  const seen: Array<[string, number]> = [];
+  let calls = 0;
+  await assertRejects(
+    () =>
+      runWithRetries(
+        () => {
+          throw new Error(++calls === 1 ? "503" : "400");
+        },
+        {
+          ...IMMEDIATE,
+          shouldRetry: (error, attempt) => {
+            seen.push([(error as Error).message, attempt]);
+            return (error as Error).message === "503";
+          },
+        },
+        new AbortController().signal,
+      ),
+    Error,
+    "400",
+  );
+  assertEquals(seen, [["503", 1], ["400", 2]]);
+});
+
+Deno.test("runWithRetries stops retrying once the signal is aborted", async () => {
+  const abortController = new AbortController();
+  let calls = 0;
+  await assertRejects(
+    () =>
+      runWithRetries(
+        () => {
+          calls++;
+          abortController.abort();
+          throw new Error("aborted mid-attempt");
+        },
+        IMMEDIATE,
+        abortController.signal,
+      ),
+    Error,
+    "aborted mid-attempt",
+  );
+  assertEquals(calls, 1);
+});
+
+Deno.test("runWithRetries stops waiting to retry once the signal is aborted", async () => {
+  const abortController = new AbortController();
+  let calls = 0;
+  const start = performance.now();
+  await assertRejects(
+    () =>
+      runWithRetries(
+        () => {
+          calls++;
+          throw new Error("fails before a long backoff");
+        },
+        { ...IMMEDIATE, initialDelayMs: 60_000, maxDelayMs: 60_000 },
+        abortController.signal,
+        () => setTimeout(() => abortController.abort(), 10),
+      ),
+    Error,
+    "fails before a long backoff",
+  );
+  assertEquals(calls, 1);
+  assertLess(performance.now() - start, 10_000);
+});
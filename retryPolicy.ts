@@ -0,0 +1,101 @@
+import { delay } from "@std/async/delay";
+import type { RetryPolicy } from "./common.ts";
+
+/** A {@link RetryPolicy} with every default filled in. */
+export type ResolvedRetryPolicy =
+  & Required<Omit<RetryPolicy, "shouldRetry">>
+  & Pick<RetryPolicy, "shouldRetry">;
+
+/**
+ * Applies the defaults to a trigger's `retryOnFailure` option, or returns
+ * `undefined` if the trigger shouldn't be retried. The defaults match those of
+ * `@std/async`'s `retry`.
+ *
+ * @throws If the policy has out-of-range values.
+ */
+export function resolveRetryPolicy(
+  retryOnFailure: boolean | RetryPolicy | undefined,
+): ResolvedRetryPolicy | undefined {
+  if (!retryOnFailure) {
+    return undefined;
+  }
+  const policy = retryOnFailure === true ? {} : retryOnFailure;
+  const resolved: ResolvedRetryPolicy = {
+    maxAttempts: policy.maxAttempts ?? 5,
+    initialDelayMs: policy.initialDelayMs ?? 1000,
+    maxDelayMs: policy.maxDelayMs ?? 60_000,
+    multiplier: policy.multiplier ?? 2,
+    jitter: policy.jitter ?? 1,
+    shouldRetry: policy.shouldRetry,
+  };
+  if (!(Number.isInteger(resolved.maxAttempts) && resolved.maxAttempts >= 1)) {
+    throw new Error(
+      `Invalid retry maxAttempts ${resolved.maxAttempts}. It must be a positive integer.`,
+    );
+  }
+  if (!(resolved.initialDelayMs >= 0)) {
+    throw new Error(
+      `Invalid retry initialDelayMs ${resolved.initialDelayMs}. It must not be negative.`,
+    );
+  }
+  if (!(resolved.maxDelayMs >= resolved.initialDelayMs)) {
+    throw new Error(
+      `Invalid retry maxDelayMs ${resolved.maxDelayMs}. It must be at least initialDelayMs.`,
+    );
+  }
+  if (!(resolved.multiplier >= 1)) {
+    throw new Error(`Invalid retry multiplier ${resolved.multiplier}. It must be at least 1.`);
+  }
+  if (!(resolved.jitter >= 0 && resolved.jitter <= 1)) {
+    throw new Error(`Invalid retry jitter ${resolved.jitter}. It must be between 0 and 1.`);
+  }
+  return resolved;
+}
+
+/**
+ * Returns how long to wait before retrying after the given failed attempt,
+ * using the same exponential backoff with jitter as `@std/async`'s `retry`.
+ */
+function retryDelayMs(policy: ResolvedRetryPolicy, attempt: number): number {
+  const delayMs = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * policy.multiplier ** (attempt - 1),
+  );
+  return (1 - policy.jitter * Math.random()) * delayMs;
+}
+
+/**
+ * Runs `fn` until it succeeds, the policy's attempts run out, its
+ * `shouldRetry` predicate rejects an error, or `signal` is aborted. `fn` is
+ * passed the number of the attempt, starting at 1. When `fn` isn't retried,
+ * the error of its last attempt is rethrown as-is.
+ *
+ * @param onRetry Called after a failed attempt that is about to be retried.
+ */
+export async function runWithRetries<T>(
+  fn: (attempt: number) => Promise<T> | T,
+  policy: ResolvedRetryPolicy,
+  signal: AbortSignal,
+  onRetry?: (error: unknown, attempt: number) => void,
+): Promise<T> {
+  for (let attempt = 1;; attempt++) {
+    signal.throwIfAborted();
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (
+        signal.aborted || (policy.shouldRetry && !policy.shouldRetry(error, attempt)) ||
+        attempt >= policy.maxAttempts
+      ) {
+        throw error;
+      }
+      onRetry?.(error, attempt);
+      try {
+        await delay(retryDelayMs(policy, attempt), { signal });
+      } catch {
+        // The signal was aborted while waiting to retry.
+        throw error;
+      }
+    }
+  }
+}
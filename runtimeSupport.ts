@@ -1,36 +1,172 @@
-import { Hono } from "hono";
-import { retry } from "@std/async/retry";
+import { type Context, Hono } from "hono";
+import { stream, streamSSE } from "hono/streaming";
 import {
   type AccessTokenCredential,
   type ApiKeyCredential,
   type CredentialFetcherBackendConfig,
+  type DelayedTaskFingerprint,
+  type InvocationErrorSummary,
+  PauseTriggerRequest,
   type Registrations,
+  ResumeTriggerRequest,
+  type ResumeTriggerResponse,
+  type RuntimeHealth,
+  type RuntimeInfo,
   type SecretInjectionBackendConfig,
   TriggerEvent,
+  TriggerEventBatch,
+  type TriggerPauseMode,
+  type TriggerPauseStatus,
   type TriggerRegistration,
 } from "./backendTypes.ts";
+import z from "zod";
+import denoConfig from "./deno.json" with { type: "json" };
 export type { AccessTokenCredential, ApiKeyCredential };
-import { type Log, patchConsoleGlobal, runInLoggingContext } from "./logging.ts";
-import type {
+import { type Log, type Logger, patchConsoleGlobal, runInLoggingContext } from "./logging.ts";
+import {
+  getInvocationContext,
+  type InvocationContext,
+  runInInvocationContext,
+} from "./invocationContext.ts";
+import {
+  type BackendAuth,
+  type BackendClient,
+  createHttpBackendClient,
+  httpBackendClient,
+} from "./backendClient.ts";
+import { ConcurrencyLimiter } from "./concurrencyLimiter.ts";
+import { CredentialCache } from "./credentialCache.ts";
+import { createDeduplicator, type Deduplicator } from "./deduplicator.ts";
+import { startLocalBackend } from "./localBackend.ts";
+import {
+  observeBackendCall,
+  recordTriggerInvocation,
+  renderMetrics,
+  type TriggerOutcome,
+} from "./metrics.ts";
+import { RECORDED_HEADERS, recordTriggerEvent } from "./recording.ts";
+import { type ResolvedRetryPolicy, resolveRetryPolicy, runWithRetries } from "./retryPolicy.ts";
+import {
+  formatTraceparent,
+  OtlpHttpSpanExporter,
+  parseTraceparent,
+  setSpanExporter,
+  type SpanContext,
+  withSpan,
+} from "./tracing.ts";
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, TriggerRequestVerifier } from "./triggerAuth.ts";
+import { DEFAULT_MAX_BUFFERED_EVENTS, TriggerPause } from "./triggerPause.ts";
+import {
+  type CommonCredentialFetcherOptions,
   CommonTriggerBackendConfig,
-  CommonTriggerOptions,
-  CommonTriggerWithAccountBackendConfig,
+  type CommonTriggerOptions,
+  type CommonTriggerWithAccountBackendConfig,
   // deno-lint-ignore no-unused-vars
-  CommonTriggerWithAccountOptions,
+  type CommonTriggerWithAccountOptions,
 } from "./common.ts";
 import type { DelayedTask, DelayedTaskScheduleOptions } from "./tasks.ts";
+import { fingerprintDelayedTask } from "./tasks/fingerprint.ts";
 import { type DelayedTaskSchedule, resolveScheduleToDate } from "./tasks/schedule.ts";
 
 patchConsoleGlobal();
 
-interface TriggerEventResponse {
+/** The result of running the handler for a trigger event. */
+export interface TriggerEventResponse {
   logs: Log[];
   error: string | undefined;
+  /**
+   * The value the handler returned, if it returned one and didn't fail. It's
+   * always JSON-serializable, at most {@link MAX_RESULT_BYTES} once
+   * serialized.
+   */
+  result?: unknown;
+}
+
+/** The largest handler result allowed, in bytes of serialized JSON. */
+export const MAX_RESULT_BYTES = 1024 * 1024;
+
+/**
+ * A record in a streamed `/__glue__/triggerEvent` response: one for each log
+ * as the handler makes it, followed by a final `result` record.
+ */
+export type TriggerEventStreamRecord =
+  | { type: "log"; log: Log }
+  | { type: "result"; error: string | undefined; result?: unknown };
+
+/**
+ * Describes the invocation a handler is running for. Every handler receives it
+ * as its second argument.
+ */
+export interface HandlerContext {
+  /** The type of the trigger being handled, such as `"github"`. */
+  type: string;
+  /** The label of the trigger being handled. */
+  label: string;
+  /** The trigger's `description` option, if it has one. */
+  description: string | undefined;
+  /**
+   * Which attempt at handling the event this is, starting at 1. Only
+   * handlers with `retryOnFailure` get more than one attempt.
+   */
+  attempt: number;
+  /** The id of the deployment running the handler, as sent by glue-backend. */
+  deploymentId: string | undefined;
+  /**
+   * When the runtime received the event, in milliseconds since the epoch.
+   * Events buffered while their trigger was paused keep the time they first
+   * arrived.
+   */
+  receivedAt: number;
+  /**
+   * Aborted when the invocation is cancelled, such as when it times out. This
+   * is the same signal as `glue.signal`.
+   */
+  signal: AbortSignal;
+  /** Logs to the invocation's logs, like `console.log` and `console.error`. */
+  logger: Logger;
 }
 
 interface RegisteredEvent {
-  fn: (event: unknown) => void | Promise<void>;
+  fn: (event: unknown, ctx: HandlerContext) => unknown;
   config: TriggerRegistration["config"];
+  /** How long the handler may run before it is aborted, if limited. */
+  timeoutMs: number | undefined;
+  /** How failed invocations are retried, if they are. */
+  retryPolicy: ResolvedRetryPolicy | undefined;
+  /** Limits concurrent invocations of the handler, if they are limited. */
+  concurrencyLimiter: ConcurrencyLimiter | undefined;
+  /** Drops redelivered events, if enabled. */
+  deduplicator: Deduplicator | undefined;
+  /** Whether `fn` takes an array of events rather than a single event. */
+  batch: boolean;
+  /** Identifies the callback of a delayed task. Only set for delayed tasks. */
+  fingerprint: DelayedTaskFingerprint | undefined;
+  /** Holds back the trigger's events while it is paused. */
+  pause: TriggerPause<BufferedTriggerEvent> | undefined;
+}
+
+/** An event held by a paused trigger, with what's needed to run it later. */
+interface BufferedTriggerEvent {
+  event: TriggerEvent;
+  batched: boolean;
+  backendAuth: Pick<InvocationContext, "glueDeploymentId" | "glueAuthHeader">;
+  receivedAt: number;
+}
+
+/** The error pausing or resuming a trigger fails with if no trigger has the label. */
+export class UnknownTriggerLabelError extends Error {
+  constructor(label: string) {
+    super(`No trigger is registered with label ${JSON.stringify(label)}`);
+    this.name = "UnknownTriggerLabelError";
+  }
+}
+
+/** The error an invocation fails with when its handler runs for too long. */
+export class HandlerTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Handler timed out after ${timeoutMs}ms`);
+    this.name = "HandlerTimeoutError";
+  }
 }
 
 interface RegisteredCredentialFetcher {
@@ -50,9 +186,91 @@ const credentialFetchersByType = new Map<
 >();
 const secretFetchersByLabel = new Map<string, RegisteredSecretFetcher>();
 
+let backendClient: BackendClient = httpBackendClient;
+
+/**
+ * @internal
+ * Replaces the client used to call glue-backend from credential fetchers,
+ * secret fetchers and delayed tasks.
+ */
+export function setBackendClient(client: BackendClient): void {
+  backendClient = client;
+  credentialCache.clear();
+}
+
 let nextAutomaticLabel = 0;
 let nextAutomaticDelayedTaskLabel = 0;
 
+/**
+ * The kind of registration holding each label claimed so far by triggers,
+ * credential fetchers and secrets.
+ */
+const usedLabels = new Map<string, string>();
+
+const USER_LABEL_PATTERN = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+/** User labels in this form could collide with automatic delayed task labels. */
+const AUTOMATIC_DELAYED_TASK_LABEL_PATTERN = /^task-\d+$/;
+
+/**
+ * Throws if a user-specified label is invalid or already claimed, without
+ * claiming it.
+ *
+ * @param kind Name of the registration kind, used in error messages.
+ */
+function checkLabel(kind: string, label: string | undefined): void {
+  if (label === undefined) {
+    return;
+  }
+  if (!USER_LABEL_PATTERN.test(label)) {
+    throw new Error(
+      `Invalid ${kind.toLowerCase()} label ${
+        JSON.stringify(label)
+      }. Labels must start with a letter, may only contain letters, digits, "-" and "_", and can be at most 64 characters long.`,
+    );
+  }
+  if (AUTOMATIC_DELAYED_TASK_LABEL_PATTERN.test(label)) {
+    throw new Error(
+      `Invalid ${kind.toLowerCase()} label ${
+        JSON.stringify(label)
+      }. Labels of the form "task-N" are reserved for the automatic labels of delayed tasks.`,
+    );
+  }
+  throwIfLabelUsed(kind, label);
+}
+
+function throwIfLabelUsed(kind: string, label: string): void {
+  const holder = usedLabels.get(label);
+  if (holder !== undefined) {
+    throw new Error(
+      `Can't register ${kind.toLowerCase()} with label ${
+        JSON.stringify(label)
+      }: the label is used by an existing ${holder.toLowerCase()}.`,
+    );
+  }
+}
+
+/**
+ * Claims the label for a new registration. User-specified labels are validated
+ * and used as-is; otherwise `automaticLabel` is called to assign one. Automatic
+ * labels are only consumed by registrations without a user-specified label, so
+ * adding a labeled registration doesn't shift the labels of others. Call this
+ * once the rest of the registration is validated, so that a registration that
+ * throws doesn't use up its label.
+ *
+ * @param kind Name of the registration kind, used in error messages.
+ */
+function claimLabel(
+  kind: string,
+  userLabel: string | undefined,
+  automaticLabel: () => string,
+): string {
+  checkLabel(kind, userLabel);
+  const resolvedLabel = userLabel ?? automaticLabel();
+  throwIfLabelUsed(kind, resolvedLabel);
+  usedLabels.set(resolvedLabel, kind);
+  return resolvedLabel;
+}
+
 /**
  * @internal
  * Registers an event listener for a specific event type. This function is used
@@ -68,31 +286,65 @@ let nextAutomaticDelayedTaskLabel = 0;
  * {@link CommonTriggerOptions} or {@link CommonTriggerWithAccountOptions} do
  * not need to be included here, as they will be taken from the
  * `commonTriggerOptions` parameter automatically.
+ * @param backendConfigSchema The event source's schema for its backend config.
+ * The full backend config, including the common properties, is validated
+ * against it so that invalid configs fail at registration instead of in
+ * glue-backend.
+ * @throws If the backend config doesn't match `backendConfigSchema`.
  */
 export function registerEventListener<T>(
   eventName: string,
-  callback: (event: T) => void,
+  callback: (event: T, ctx: HandlerContext) => void,
   commonTriggerOptions: CommonTriggerOptions | undefined,
   backendConfig: CommonTriggerBackendConfig,
+  backendConfigSchema: z.ZodType<CommonTriggerBackendConfig>,
 ): string {
-  scheduleInit();
+  return addEventListener(
+    eventName,
+    callback,
+    commonTriggerOptions,
+    backendConfig,
+    backendConfigSchema,
+    false,
+  );
+}
 
-  let specificEventListeners = eventListenersByType.get(eventName);
-  if (!specificEventListeners) {
-    specificEventListeners = new Map();
-    eventListenersByType.set(eventName, specificEventListeners);
-  }
+/**
+ * @internal
+ * Registers an event listener that handles events in batches. It's called
+ * with every event for it in a `/__glue__/triggerEventBatch` request at once,
+ * and with a single-element array for events delivered on their own. The
+ * parameters are the same as {@link registerEventListener}'s.
+ */
+export function registerBatchEventListener<T>(
+  eventName: string,
+  callback: (events: T[], ctx: HandlerContext) => void | Promise<void>,
+  commonTriggerOptions: Omit<CommonTriggerOptions, "dedupe"> | undefined,
+  backendConfig: CommonTriggerBackendConfig,
+  backendConfigSchema: z.ZodType<CommonTriggerBackendConfig>,
+): string {
+  return addEventListener(
+    eventName,
+    callback,
+    commonTriggerOptions,
+    backendConfig,
+    backendConfigSchema,
+    true,
+  );
+}
 
-  // Delayed tasks use their own label counter with a `task-` prefix so their
-  // labels don't collide with normal trigger labels.
-  const resolvedLabel = eventName === DELAYED_TASK_TRIGGER_TYPE
-    ? `task-${nextAutomaticDelayedTaskLabel++}`
-    : String(nextAutomaticLabel++);
-  if (specificEventListeners.has(resolvedLabel)) {
-    throw new Error(
-      `Event listener with label ${JSON.stringify(resolvedLabel)} already registered`,
-    );
-  }
+function addEventListener(
+  eventName: string,
+  callback: (event: never, ctx: HandlerContext) => unknown,
+  commonTriggerOptions: CommonTriggerOptions | undefined,
+  backendConfig: CommonTriggerBackendConfig,
+  backendConfigSchema: z.ZodType<CommonTriggerBackendConfig>,
+  batch: boolean,
+): string {
+  scheduleInit();
+
+  const userLabel = commonTriggerOptions?.label;
+  checkLabel("Event listener", userLabel);
 
   const fullBackendConfig: CommonTriggerBackendConfig = {
     ...backendConfig,
@@ -106,16 +358,79 @@ export function registerEventListener<T>(
     (fullBackendConfig as CommonTriggerWithAccountBackendConfig).accountSelector =
       commonTriggerOptions.accountSelector as Record<string, string | undefined>;
   }
+  const configResult = backendConfigSchema.safeParse(fullBackendConfig);
+  if (!configResult.success) {
+    throw new Error(
+      `Invalid config for ${eventName} trigger${
+        userLabel === undefined ? "" : ` ${JSON.stringify(userLabel)}`
+      }:\n${z.prettifyError(configResult.error)}`,
+    );
+  }
+
+  const timeoutMs = commonTriggerOptions?.timeoutMs;
+  if (timeoutMs !== undefined && !(timeoutMs > 0 && Number.isFinite(timeoutMs))) {
+    throw new Error(`Invalid timeoutMs ${timeoutMs}. It must be a positive number.`);
+  }
 
-  const typedCallback = callback as RegisteredEvent["fn"];
+  const retryPolicy = resolveRetryPolicy(commonTriggerOptions?.retryOnFailure);
+
+  const maxConcurrency = commonTriggerOptions?.maxConcurrency;
+  const maxQueueLength = commonTriggerOptions?.maxQueueLength;
+  if (maxConcurrency !== undefined && !(Number.isInteger(maxConcurrency) && maxConcurrency > 0)) {
+    throw new Error(
+      `Invalid maxConcurrency ${maxConcurrency}. It must be a positive integer.`,
+    );
+  }
+  if (maxQueueLength !== undefined) {
+    if (!(Number.isInteger(maxQueueLength) && maxQueueLength >= 0)) {
+      throw new Error(
+        `Invalid maxQueueLength ${maxQueueLength}. It must be a non-negative integer.`,
+      );
+    }
+    if (maxConcurrency === undefined) {
+      throw new Error("maxQueueLength can only be used together with maxConcurrency.");
+    }
+  }
+
+  if (batch && commonTriggerOptions?.dedupe) {
+    throw new Error("dedupe is not supported for batch event listeners.");
+  }
+  const deduplicator = createDeduplicator(eventName, commonTriggerOptions?.dedupe);
+
+  // Delayed tasks use their own label counter with a `task-` prefix so their
+  // labels don't collide with normal trigger labels.
+  const resolvedLabel = claimLabel(
+    "Event listener",
+    userLabel,
+    () =>
+      eventName === DELAYED_TASK_TRIGGER_TYPE
+        ? `task-${nextAutomaticDelayedTaskLabel++}`
+        : String(nextAutomaticLabel++),
+  );
 
-  const effectiveCallback: RegisteredEvent["fn"] = commonTriggerOptions?.retryOnFailure
-    ? async (event: unknown) => await retry(() => typedCallback(event))
-    : typedCallback;
+  const concurrencyLimiter = maxConcurrency === undefined ? undefined : new ConcurrencyLimiter(
+    `the ${eventName} trigger ${resolvedLabel}`,
+    maxConcurrency,
+    maxQueueLength ?? DEFAULT_MAX_QUEUE_LENGTH,
+  );
 
+  let specificEventListeners = eventListenersByType.get(eventName);
+  if (!specificEventListeners) {
+    specificEventListeners = new Map();
+    eventListenersByType.set(eventName, specificEventListeners);
+  }
   specificEventListeners.set(resolvedLabel, {
-    fn: effectiveCallback,
+    fn: callback as RegisteredEvent["fn"],
     config: fullBackendConfig,
+    timeoutMs,
+    retryPolicy,
+    concurrencyLimiter,
+    deduplicator,
+    batch,
+    fingerprint: eventName === DELAYED_TASK_TRIGGER_TYPE
+      ? fingerprintDelayedTask(callback)
+      : undefined,
+    pause: undefined,
   });
 
   return resolvedLabel;
@@ -129,10 +444,45 @@ export interface CredentialFetcher<T> {
    * Fetches the account credential or client. This must only be called within
    * an event handler.
    *
+   * Credentials are cached and reused until shortly before their `expiresAt`,
+   * or for a few minutes if they don't have one. Concurrent calls share a
+   * single request.
+   *
+   * @example
+   * ```typescript
+   * let cred = await fetcher.get();
+   * let res = await callApi(cred.accessToken);
+   * if (res.status === 401) {
+   *   cred = await fetcher.get({ forceRefresh: true });
+   *   res = await callApi(cred.accessToken);
+   * }
+   * ```
+   *
    * @throws If called outside of an event handler, or if there is an error
    * fetching the credential.
    */
-  get(): Promise<T>;
+  get(options?: CredentialFetchOptions): Promise<T>;
+}
+
+/** Options for {@link CredentialFetcher.get}. */
+export interface CredentialFetchOptions {
+  /**
+   * Fetch a new credential instead of reusing a cached one, such as when an
+   * API rejected the cached credential.
+   * @default false
+   */
+  forceRefresh?: boolean;
+}
+
+const credentialCache = new CredentialCache();
+
+/**
+ * @internal
+ * Forgets all cached credentials. Used by the test harness when stubbed
+ * credentials change.
+ */
+export function clearCredentialCache(): void {
+  credentialCache.clear();
 }
 
 /**
@@ -142,7 +492,7 @@ export interface CredentialFetcher<T> {
  */
 export function registerCredentialFetcher<T extends AccessTokenCredential | ApiKeyCredential>(
   type: string,
-  config: CredentialFetcherBackendConfig,
+  options: CredentialFetcherBackendConfig & Pick<CommonCredentialFetcherOptions, "label">,
 ): CredentialFetcher<T> {
   scheduleInit();
   let credentialFetchersOfType = credentialFetchersByType.get(type);
@@ -151,56 +501,38 @@ export function registerCredentialFetcher<T extends AccessTokenCredential | ApiK
     credentialFetchersByType.set(type, credentialFetchersOfType);
   }
 
-  const resolvedLabel = String(nextAutomaticLabel++);
-  if (credentialFetchersOfType.has(resolvedLabel)) {
-    throw new Error(
-      `Credential fetcher with label ${
-        JSON.stringify(
-          resolvedLabel,
-        )
-      } already registered`,
-    );
-  }
+  const { label, ...config } = options;
+  const resolvedLabel = claimLabel(
+    "Credential fetcher",
+    label,
+    () => String(nextAutomaticLabel++),
+  );
   credentialFetchersOfType.set(resolvedLabel, {
     config,
   });
 
   return {
-    async get() {
-      if (!glueDeploymentId || !glueAuthHeader) {
-        throw new Error(
-          "Credential fetcher must not be used before any trigger events have been received.",
-        );
-      }
-      const glueDeploymentId_ = glueDeploymentId;
-      const glueAuthHeader_ = glueAuthHeader;
-      // retry on connection errors
-      const res = await retry(async () => {
-        const res = await fetch(
-          `${Deno.env.get("GLUE_API_SERVER")}/glueInternal/deployments/${
-            encodeURIComponent(glueDeploymentId_)
-          }/accountInjections/${encodeURIComponent(type)}/${encodeURIComponent(resolvedLabel)}`,
-          {
-            headers: {
-              "Authorization": glueAuthHeader_,
-            },
-          },
-        );
-        // retry on 5xx errors from backend, which may be transient
-        if (res.status >= 500 && res.status < 600) {
-          throw new Error(
-            `Failed to fetch credential: ${res.status} ${res.statusText}`,
-          );
-        }
-        return res;
-      });
-      if (!res.ok) {
-        throw new Error(
-          `Failed to fetch credential: ${res.status} ${res.statusText}`,
-        );
-      }
-      const body = await res.json() as T;
-      return body;
+    async get(options) {
+      const auth = requireBackendAuth("Credential fetcher");
+      // Labels are only unique within a deployment.
+      return await withSpan(
+        "CredentialFetcher.get",
+        () =>
+          credentialCache.get(
+            `${auth.glueDeploymentId}/${resolvedLabel}`,
+            // Only real fetches count as backend calls, not cache hits.
+            () =>
+              observeBackendCall(
+                "credential",
+                () => backendClient.fetchCredential(auth, type, resolvedLabel),
+              ),
+            options?.forceRefresh,
+          ),
+        {
+          kind: "client",
+          attributes: { "glue.credential.type": type, "glue.label": resolvedLabel },
+        },
+      ) as T;
     },
   };
 }
@@ -219,14 +551,15 @@ const DELAYED_TASK_TRIGGER_TYPE = "delayedTask";
  * `/__glue__/triggerEvent` path.
  */
 export function registerDelayedTask<T>(
-  callback: (event: T) => void | Promise<void>,
+  callback: (event: T, ctx: HandlerContext) => void | Promise<void>,
   options?: CommonTriggerOptions,
 ): DelayedTask<T> {
   const label = registerEventListener<T>(
     DELAYED_TASK_TRIGGER_TYPE,
-    callback as (event: T) => void,
+    callback as (event: T, ctx: HandlerContext) => void,
     options,
     {},
+    CommonTriggerBackendConfig,
   );
 
   return {
@@ -235,49 +568,25 @@ export function registerDelayedTask<T>(
       when: DelayedTaskSchedule,
       options?: DelayedTaskScheduleOptions,
     ): Promise<void> {
-      if (!glueDeploymentId || !glueAuthHeader) {
-        throw new Error(
-          "DelayedTask.schedule must not be used before any trigger events have been received.",
-        );
-      }
-      const glueDeploymentId_ = glueDeploymentId;
-      const glueAuthHeader_ = glueAuthHeader;
+      const auth = requireBackendAuth("DelayedTask.schedule");
 
       const at = resolveScheduleToDate(when).getTime();
       if (at - Date.now() > 30 * 24 * 60 * 60 * 1000) {
         throw new Error("Delayed tasks can not be scheduled more than 30 days in the future.");
       }
-      const body = {
-        data,
-        at,
-        idempotencyKey: options?.idempotencyKey ?? `auto-${crypto.randomUUID()}`,
-      };
-      const res = await retry(async () => {
-        const res = await fetch(
-          `${Deno.env.get("GLUE_API_SERVER")}/glueInternal/deployments/${
-            encodeURIComponent(glueDeploymentId_)
-          }/delayedTasks/${encodeURIComponent(label)}/schedule`,
-          {
-            method: "POST",
-            headers: {
-              "Authorization": glueAuthHeader_,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify(body),
-          },
-        );
-        if (res.status >= 500 && res.status < 600) {
-          throw new Error(
-            `Failed to schedule delayed task: ${res.status} ${res.statusText}`,
-          );
-        }
-        return res;
-      });
-      if (!res.ok) {
-        throw new Error(
-          `Failed to schedule delayed task: ${res.status} ${res.statusText}`,
-        );
-      }
+      await withSpan(
+        "DelayedTask.schedule",
+        (span) =>
+          observeBackendCall("delayedTask", () =>
+            backendClient.scheduleDelayedTask(auth, label, {
+              data,
+              at,
+              idempotencyKey: options?.idempotencyKey ?? `auto-${crypto.randomUUID()}`,
+              // Continues this trace when the task runs.
+              traceparent: formatTraceparent(span.context),
+            })),
+        { kind: "client", attributes: { "glue.label": label } },
+      );
     },
   };
 }
@@ -303,64 +612,42 @@ export interface SecretFetcher {
  */
 export function registerSecretFetcher(
   config: SecretInjectionBackendConfig,
+  label?: string,
 ): SecretFetcher {
   scheduleInit();
 
-  const resolvedLabel = String(nextAutomaticLabel++);
-  if (secretFetchersByLabel.has(resolvedLabel)) {
-    throw new Error(
-      `Secret fetcher with label ${JSON.stringify(resolvedLabel)} already registered`,
-    );
-  }
+  const resolvedLabel = claimLabel("Secret fetcher", label, () => String(nextAutomaticLabel++));
   secretFetchersByLabel.set(resolvedLabel, { config });
 
   return {
     async get(): Promise<string> {
-      if (!glueDeploymentId || !glueAuthHeader) {
-        throw new Error(
-          "Secret fetcher must not be used before any trigger events have been received.",
-        );
-      }
-      const glueDeploymentId_ = glueDeploymentId;
-      const glueAuthHeader_ = glueAuthHeader;
-      const res = await retry(async () => {
-        const res = await fetch(
-          `${Deno.env.get("GLUE_API_SERVER")}/glueInternal/deployments/${
-            encodeURIComponent(glueDeploymentId_)
-          }/secretInjections/${encodeURIComponent(resolvedLabel)}`,
-          {
-            headers: {
-              "Authorization": glueAuthHeader_,
-            },
-          },
-        );
-        if (res.status >= 500 && res.status < 600) {
-          throw new Error(
-            `Failed to fetch secret: ${res.status} ${res.statusText}`,
-          );
-        }
-        return res;
-      });
-      if (!res.ok) {
-        throw new Error(
-          `Failed to fetch secret: ${res.status} ${res.statusText}`,
-        );
-      }
-      const body = await res.json() as { value: string };
-      return body.value;
+      const auth = requireBackendAuth("Secret fetcher");
+      return await withSpan(
+        "SecretFetcher.get",
+        () => observeBackendCall("secret", () => backendClient.fetchSecret(auth, resolvedLabel)),
+        { kind: "client", attributes: { "glue.label": resolvedLabel } },
+      );
     },
   };
 }
 
-function getRegistrations(): Registrations {
+/**
+ * @internal
+ * Returns everything registered by the Glue script. This is what glue-backend
+ * receives from `/__glue__/getRegistrations`.
+ */
+export function getRegistrations(): Registrations {
   return {
     triggers: Array.from(
       eventListenersByType.entries()
         .flatMap(([type, listeners]) =>
-          listeners.entries().map(([label, { config }]) => ({
+          listeners.entries().map(([label, { config, batch, fingerprint, pause }]) => ({
             type,
             label,
             config,
+            ...(batch ? { batch } : {}),
+            ...(fingerprint ? { fingerprint } : {}),
+            ...(pause ? { paused: pause.status } : {}),
           }))
         ),
     ),
@@ -383,20 +670,750 @@ function getRegistrations(): Registrations {
   };
 }
 
-async function handleTrigger(event: TriggerEvent) {
+function findEventListenerByLabel(label: string): RegisteredEvent {
+  for (const listeners of eventListenersByType.values()) {
+    const eventListener = listeners.get(label);
+    if (eventListener) {
+      return eventListener;
+    }
+  }
+  throw new UnknownTriggerLabelError(label);
+}
+
+/**
+ * @internal
+ * Pauses the trigger with the given label, so its events are dropped or
+ * buffered instead of running its handler. Pausing a paused trigger changes
+ * how it holds new events and keeps the events it already buffered.
+ *
+ * @throws {UnknownTriggerLabelError} If no trigger has the label.
+ */
+export function pauseTrigger(
+  label: string,
+  options?: { mode?: TriggerPauseMode; maxBufferedEvents?: number },
+): TriggerPauseStatus {
+  const eventListener = findEventListenerByLabel(label);
+  const mode = options?.mode ?? "drop";
+  const maxBufferedEvents = options?.maxBufferedEvents ?? DEFAULT_MAX_BUFFERED_EVENTS;
+  if (eventListener.pause) {
+    eventListener.pause.update(mode, maxBufferedEvents);
+  } else {
+    eventListener.pause = new TriggerPause(mode, maxBufferedEvents);
+  }
+  return eventListener.pause.status;
+}
+
+/**
+ * @internal
+ * Resumes the trigger with the given label. Its buffered events run one at a
+ * time in the background, in the order they arrived, unless `discardBuffered`
+ * is set. Replaying stops if the runtime starts shutting down. Resuming a
+ * trigger that isn't paused does nothing.
+ *
+ * @throws {UnknownTriggerLabelError} If no trigger has the label.
+ */
+export function resumeTrigger(
+  label: string,
+  options?: { discardBuffered?: boolean },
+): ResumeTriggerResponse {
+  const eventListener = findEventListenerByLabel(label);
+  const buffered = eventListener.pause?.takeBuffered() ?? [];
+  eventListener.pause = undefined;
+  if (options?.discardBuffered || buffered.length === 0) {
+    return { replayedEvents: 0 };
+  }
+  void (async () => {
+    for (const [index, { event, batched, backendAuth, receivedAt }] of buffered.entries()) {
+      if (shutdownPromise) {
+        console.warn(
+          `Runtime shut down before replaying ${
+            buffered.length - index
+          } buffered events of trigger ${label}`,
+        );
+        return;
+      }
+      await invokeTrigger(event, backendAuth, { batched, receivedAt });
+    }
+  })();
+  return { replayedEvents: buffered.length };
+}
+
+/**
+ * @internal
+ * Returns the state of the trigger with the given label if it is paused.
+ *
+ * @throws {UnknownTriggerLabelError} If no trigger has the label.
+ */
+export function getTriggerPauseStatus(label: string): TriggerPauseStatus | undefined {
+  return findEventListenerByLabel(label).pause?.status;
+}
+
+/**
+ * The timeout for handlers that don't set their own `timeoutMs`, configured
+ * for the whole deployment through the `GLUE_HANDLER_TIMEOUT_MS` environment
+ * variable.
+ */
+function getDefaultTimeoutMs(): number | undefined {
+  const value = Deno.env.get("GLUE_HANDLER_TIMEOUT_MS");
+  if (!value) {
+    return undefined;
+  }
+  const timeoutMs = Number(value);
+  if (!(timeoutMs > 0 && Number.isFinite(timeoutMs))) {
+    throw new Error(`Invalid GLUE_HANDLER_TIMEOUT_MS ${JSON.stringify(value)}`);
+  }
+  return timeoutMs;
+}
+
+/** The queue length used when a concurrency limit doesn't set its own. */
+const DEFAULT_MAX_QUEUE_LENGTH = 100;
+
+/**
+ * Reads a non-negative integer from an environment variable, or returns
+ * `undefined` if it isn't set.
+ */
+function getIntegerEnv(name: string): number | undefined {
+  const value = Deno.env.get(name);
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!(Number.isInteger(parsed) && parsed >= 0)) {
+    throw new Error(`Invalid ${name} ${JSON.stringify(value)}`);
+  }
+  return parsed;
+}
+
+let globalConcurrencyLimiter: ConcurrencyLimiter | null | undefined;
+
+/**
+ * The limit on concurrent invocations across all triggers, configured for the
+ * whole deployment through the `GLUE_MAX_CONCURRENCY` and
+ * `GLUE_MAX_QUEUE_LENGTH` environment variables.
+ */
+function getGlobalConcurrencyLimiter(): ConcurrencyLimiter | undefined {
+  if (globalConcurrencyLimiter === undefined) {
+    const maxConcurrency = getIntegerEnv("GLUE_MAX_CONCURRENCY");
+    globalConcurrencyLimiter = maxConcurrency
+      ? new ConcurrencyLimiter(
+        "the deployment",
+        maxConcurrency,
+        getIntegerEnv("GLUE_MAX_QUEUE_LENGTH") ?? DEFAULT_MAX_QUEUE_LENGTH,
+      )
+      : null;
+  }
+  return globalConcurrencyLimiter ?? undefined;
+}
+
+/**
+ * @internal
+ * Forgets the deployment-wide concurrency limit so that it's read from the
+ * environment again on the next invocation. Used by tests that change it.
+ */
+export function resetGlobalConcurrencyLimiter(): void {
+  globalConcurrencyLimiter = undefined;
+}
+
+let otlpExporter: OtlpHttpSpanExporter | null | undefined;
+
+/**
+ * The exporter that sends spans to an OpenTelemetry collector, configured for
+ * the whole deployment through the `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` or
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` and `OTEL_SERVICE_NAME` environment variables.
+ */
+function getOtlpExporter(): OtlpHttpSpanExporter | undefined {
+  if (otlpExporter === undefined) {
+    const endpoint = Deno.env.get("OTEL_EXPORTER_OTLP_ENDPOINT");
+    const tracesUrl = Deno.env.get("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT") ??
+      (endpoint ? `${endpoint.replace(/\/$/, "")}/v1/traces` : undefined);
+    const exporter = tracesUrl
+      ? new OtlpHttpSpanExporter(
+        tracesUrl,
+        Deno.env.get("OTEL_SERVICE_NAME") ?? "glue",
+        denoConfig.version,
+      )
+      : undefined;
+    otlpExporter = exporter ?? null;
+    setSpanExporter(exporter);
+    if (exporter) {
+      registerShutdownHook(() => exporter.shutdown());
+    }
+  }
+  return otlpExporter ?? undefined;
+}
+
+/**
+ * @internal
+ * Stops exporting spans to the current exporter and reads the exporter's
+ * configuration from the environment again on the next invocation. Used by
+ * tests that change it.
+ */
+export function resetOtlpExporter(): void {
+  otlpExporter = undefined;
+  setSpanExporter(undefined);
+}
+
+/**
+ * @param batched Whether `event.data` is an array of events grouped for a
+ * batch event listener, rather than a single event.
+ * @param receivedAt When the runtime received the event, in milliseconds since
+ * the epoch.
+ */
+async function handleTrigger(
+  event: TriggerEvent,
+  batched: boolean,
+  receivedAt: number,
+  abortController: AbortController,
+  logger: Logger,
+): Promise<unknown> {
   const specificEventListeners = eventListenersByType.get(event.type);
   const eventListener = specificEventListeners?.get(event.label);
   if (!eventListener) {
     throw new Error(`Unknown trigger: ${event.type} ${event.label}`);
   }
-  await eventListener.fn(event.data);
+  if (batched && !eventListener.batch) {
+    throw new Error(`Trigger ${event.type} ${event.label} does not handle batches`);
+  }
+
+  const invocationContext = getInvocationContext();
+  const { pause } = eventListener;
+  if (pause) {
+    const buffered = pause.hold({
+      event,
+      batched,
+      backendAuth: {
+        glueDeploymentId: invocationContext?.glueDeploymentId,
+        glueAuthHeader: invocationContext?.glueAuthHeader,
+      },
+      receivedAt,
+    });
+    logger.log(
+      buffered
+        ? `Buffered ${event.type} event until trigger ${event.label} is resumed`
+        : `Dropped ${event.type} event because trigger ${event.label} is paused`,
+    );
+    return;
+  }
+
+  const data = eventListener.batch && !batched ? [event.data] : event.data;
+
+  const { deduplicator } = eventListener;
+  const dedupeClaim = deduplicator?.claim(data);
+  if (dedupeClaim?.duplicate) {
+    logger.log(`Dropped duplicate ${event.type} event ${JSON.stringify(dedupeClaim.key)}`);
+    return;
+  }
+
+  const middlewareContext: MiddlewareContext = {
+    type: event.type,
+    label: event.label,
+    data,
+  };
+  const createHandlerContext = (attempt: number): HandlerContext => ({
+    type: event.type,
+    label: event.label,
+    description: eventListener.config?.description,
+    attempt,
+    deploymentId: invocationContext?.glueDeploymentId,
+    receivedAt,
+    signal: abortController.signal,
+    logger,
+  });
+  const { retryPolicy } = eventListener;
+  const runHandler = async () => {
+    middlewareContext.result = retryPolicy
+      ? await runWithRetries(
+        (attempt) => eventListener.fn(middlewareContext.data, createHandlerContext(attempt)),
+        retryPolicy,
+        abortController.signal,
+        (error, attempt) => {
+          logger.error(`Attempt ${attempt} of ${retryPolicy.maxAttempts} failed, retrying:`, error);
+        },
+      )
+      : await eventListener.fn(middlewareContext.data, createHandlerContext(1));
+  };
+  const runHandlerWithMiddleware = () => runMiddleware(middlewareContext, runHandler);
+
+  const timeoutMs = eventListener.timeoutMs ?? getDefaultTimeoutMs();
+  const runInvocation = () =>
+    timeoutMs === undefined
+      ? runHandlerWithMiddleware()
+      : runWithTimeout(runHandlerWithMiddleware, timeoutMs, abortController);
+  // The trigger's own limit is waited on first so that invocations queued
+  // behind it don't hold one of the deployment's slots.
+  const { concurrencyLimiter } = eventListener;
+  const globalLimiter = getGlobalConcurrencyLimiter();
+  const runWithGlobalLimit = globalLimiter ? () => globalLimiter.run(runInvocation) : runInvocation;
+  const start = performance.now();
+  const recordOutcome = (outcome: TriggerOutcome) =>
+    recordTriggerInvocation(event.type, event.label, outcome, (performance.now() - start) / 1000);
+  try {
+    await (concurrencyLimiter ? concurrencyLimiter.run(runWithGlobalLimit) : runWithGlobalLimit());
+    const result = toResponseResult(middlewareContext.result);
+    recordOutcome("success");
+    return result;
+  } catch (e) {
+    recordOutcome(e instanceof HandlerTimeoutError ? "timeout" : "error");
+    if (deduplicator && dedupeClaim?.key !== undefined) {
+      deduplicator.release(dedupeClaim.key);
+    }
+    await runErrorHandlers(e, { type: event.type, label: event.label, data }, logger);
+    throw e;
+  }
+}
+
+/**
+ * Checks that a handler's return value can be sent to glue-backend and returns
+ * it as it will be received there.
+ *
+ * @throws If the value isn't JSON-serializable or is larger than
+ * {@link MAX_RESULT_BYTES}.
+ */
+function toResponseResult(result: unknown): unknown {
+  if (result === undefined) {
+    return undefined;
+  }
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(result);
+  } catch (e) {
+    throw new Error(`Handler result is not JSON-serializable: ${(e as Error).message}`);
+  }
+  if (json === undefined) {
+    throw new Error(`Handler result is not JSON-serializable: ${typeof result}`);
+  }
+  const size = new TextEncoder().encode(json).length;
+  if (size > MAX_RESULT_BYTES) {
+    throw new Error(
+      `Handler result is ${size} bytes, which is more than the limit of ${MAX_RESULT_BYTES} bytes`,
+    );
+  }
+  return JSON.parse(json);
+}
+
+/** Describes the invocation a `glue.use` middleware is running for. */
+export interface MiddlewareContext {
+  /** The type of the trigger being handled, such as `"github"`. */
+  type: string;
+  /** The label of the trigger being handled. */
+  label: string;
+  /**
+   * The event data the handler will be called with. Middleware may replace it
+   * before calling `next()` to enrich the event.
+   */
+  data: unknown;
+  /**
+   * The value the handler returned, set once `next()` resolves. Middleware may
+   * replace it to change the result sent to glue-backend.
+   */
+  result?: unknown;
+}
+
+/**
+ * Runs around every event handler invocation. Call `next()` to run the rest of
+ * the middleware and then the handler; not calling it skips the handler.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: () => Promise<void>,
+) => void | Promise<void>;
+
+const middlewares: Middleware[] = [];
+
+/**
+ * @internal
+ * Registers middleware to run around every event handler invocation. Used by
+ * `glue.use`.
+ */
+export function registerMiddleware(middleware: Middleware): void {
+  middlewares.push(middleware);
+}
+
+/**
+ * Runs the registered middleware in registration order, with `handler` at the
+ * innermost position.
+ */
+async function runMiddleware(
+  context: MiddlewareContext,
+  handler: () => Promise<void> | void,
+): Promise<void> {
+  const dispatch = async (index: number): Promise<void> => {
+    if (index === middlewares.length) {
+      await handler();
+      return;
+    }
+    let nextCalled = false;
+    await middlewares[index](context, () => {
+      if (nextCalled) {
+        return Promise.reject(new Error("next() called multiple times"));
+      }
+      nextCalled = true;
+      return dispatch(index + 1);
+    });
+  };
+  await dispatch(0);
+}
+
+/**
+ * Runs `fn`, failing with a {@link HandlerTimeoutError} and aborting
+ * `abortController` if it doesn't finish within `timeoutMs`.
+ */
+async function runWithTimeout(
+  fn: () => Promise<void>,
+  timeoutMs: number,
+  abortController: AbortController,
+): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(() => {
+      const error = new HandlerTimeoutError(timeoutMs);
+      abortController.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    await Promise.race([fn(), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Describes the failed invocation passed to `glue.onError` handlers. */
+export interface HandlerErrorContext {
+  /** The type of the trigger whose handler failed, such as `"github"`. */
+  type: string;
+  /** The label of the trigger whose handler failed. */
+  label: string;
+  /** The event data the handler was called with. */
+  data: unknown;
+}
+
+type ErrorHandler = (error: unknown, context: HandlerErrorContext) => void | Promise<void>;
+
+const errorHandlers: ErrorHandler[] = [];
+
+/**
+ * @internal
+ * Registers a function to run when an event handler fails after all of its
+ * retries. Used by `glue.onError`.
+ */
+export function registerErrorHandler(fn: ErrorHandler): void {
+  errorHandlers.push(fn);
+}
+
+/**
+ * Runs the registered error handlers for a failed invocation, one at a time.
+ * Errors thrown by error handlers are logged and otherwise ignored so that the
+ * invocation still reports the handler's original error.
+ */
+async function runErrorHandlers(error: unknown, context: HandlerErrorContext, logger: Logger) {
+  for (const errorHandler of errorHandlers) {
+    try {
+      await errorHandler(error, context);
+    } catch (e) {
+      logger.error("Error handler failed:", e);
+    }
+  }
+}
+
+/** Invocations that have started but not yet finished. */
+const inFlightInvocations = new Set<Promise<TriggerEventResponse>>();
+
+let lastError: InvocationErrorSummary | undefined;
+
+/**
+ * @internal
+ * Runs the handler for a trigger event within a new invocation context,
+ * capturing its logs and any error it throws.
+ *
+ * @param options.batched Whether `event.data` is an array of events grouped
+ * for a batch event listener by {@link invokeTriggerBatch}.
+ * @param options.onLog Called with each log the handler makes as it is made,
+ * for streaming them.
+ * @param options.parentSpan The span from the request's `traceparent` header,
+ * whose trace the invocation continues. A new trace is started without one.
+ * @param options.receivedAt When the event was received, if it was received
+ * before now, such as when replaying events buffered by a paused trigger.
+ */
+export function invokeTrigger(
+  event: TriggerEvent,
+  backendAuth: Pick<InvocationContext, "glueDeploymentId" | "glueAuthHeader">,
+  options?: {
+    batched?: boolean;
+    onLog?: (log: Log) => void;
+    parentSpan?: SpanContext;
+    receivedAt?: number;
+  },
+): Promise<TriggerEventResponse> {
+  const receivedAt = options?.receivedAt ?? Date.now();
+  const abortController = new AbortController();
+  const exporter = getOtlpExporter();
+  const invocation = runInInvocationContext(
+    { ...backendAuth, signal: abortController.signal },
+    () =>
+      withSpan("triggerEvent", async (span) => {
+        const response = await runInLoggingContext(
+          (logger) =>
+            handleTrigger(event, options?.batched ?? false, receivedAt, abortController, logger),
+          options?.onLog,
+        );
+        if (response.error !== undefined) {
+          span.errorMessage = response.error.split("\n")[0];
+        }
+        return response;
+      }, {
+        kind: "server",
+        parent: options?.parentSpan,
+        attributes: { "glue.trigger.type": event.type, "glue.trigger.label": event.label },
+      }),
+  );
+  inFlightInvocations.add(invocation);
+  invocation.then(({ error }) => {
+    inFlightInvocations.delete(invocation);
+    void exporter?.flush();
+    if (error !== undefined) {
+      lastError = {
+        type: event.type,
+        label: event.label,
+        message: error.split("\n")[0],
+        timestamp: Date.now(),
+      };
+    }
+  });
+  return invocation;
+}
+
+/**
+ * How many invocations of a batch run at once, configured for the whole
+ * deployment through the `GLUE_BATCH_PARALLELISM` environment variable.
+ */
+function getBatchParallelism(): number {
+  return getIntegerEnv("GLUE_BATCH_PARALLELISM") || 4;
+}
+
+/**
+ * @internal
+ * Runs the handlers for a batch of trigger events and returns the result of
+ * each event, in the same order. Events for batch event listeners are grouped
+ * so that each of those handlers is invoked once with all of its events, and
+ * each of those events gets the result of that invocation. Invocations run with
+ * bounded parallelism.
+ */
+export async function invokeTriggerBatch(
+  events: TriggerEvent[],
+  backendAuth: Pick<InvocationContext, "glueDeploymentId" | "glueAuthHeader">,
+  parentSpan?: SpanContext,
+): Promise<TriggerEventResponse[]> {
+  const invocations: Array<{ event: TriggerEvent; batched: boolean; indexes: number[] }> = [];
+  const batchInvocationsByListener = new Map<RegisteredEvent, typeof invocations[number]>();
+  for (const [index, event] of events.entries()) {
+    const eventListener = eventListenersByType.get(event.type)?.get(event.label);
+    if (!eventListener?.batch) {
+      invocations.push({ event, batched: false, indexes: [index] });
+      continue;
+    }
+    let invocation = batchInvocationsByListener.get(eventListener);
+    if (!invocation) {
+      invocation = {
+        event: { type: event.type, label: event.label, data: [] },
+        batched: true,
+        indexes: [],
+      };
+      batchInvocationsByListener.set(eventListener, invocation);
+      invocations.push(invocation);
+    }
+    (invocation.event.data as unknown[]).push(event.data);
+    invocation.indexes.push(index);
+  }
+
+  const limiter = new ConcurrencyLimiter("the batch", getBatchParallelism(), Infinity);
+  const responses = new Array<TriggerEventResponse>(events.length);
+  await Promise.all(invocations.map(({ event, batched, indexes }) =>
+    limiter.run(async () => {
+      const response = await invokeTrigger(event, backendAuth, { batched, parentSpan });
+      for (const index of indexes) {
+        responses[index] = response;
+      }
+    })
+  ));
+  return responses;
+}
+
+/**
+ * Runs the handler for a trigger event and writes a
+ * {@link TriggerEventStreamRecord} for each log as it's made, then one for the
+ * result. Records are written in order, one at a time. If a write fails, such
+ * as when the client disconnects, the handler keeps running but nothing more
+ * is written.
+ */
+async function streamTriggerEvent(
+  event: TriggerEvent,
+  backendAuth: Pick<InvocationContext, "glueDeploymentId" | "glueAuthHeader">,
+  parentSpan: SpanContext | undefined,
+  write: (record: TriggerEventStreamRecord) => Promise<unknown>,
+): Promise<void> {
+  let writes = Promise.resolve();
+  let writeFailed = false;
+  const enqueue = (record: TriggerEventStreamRecord) => {
+    writes = writes.then(async () => {
+      if (writeFailed) {
+        return;
+      }
+      try {
+        await write(record);
+      } catch {
+        writeFailed = true;
+      }
+    });
+  };
+  const { error, result } = await invokeTrigger(event, backendAuth, {
+    onLog: (log) => enqueue({ type: "log", log }),
+    parentSpan,
+  });
+  enqueue({ type: "result", error, result });
+  await writes;
+}
+
+const shutdownHooks: Array<() => void | Promise<void>> = [];
+let shutdownPromise: Promise<void> | undefined;
+let server: Deno.HttpServer | undefined;
+
+/**
+ * @internal
+ * Registers a function to run during shutdown, after in-flight invocations
+ * have finished. Used by `glue.onShutdown`.
+ */
+export function registerShutdownHook(fn: () => void | Promise<void>): void {
+  shutdownHooks.push(fn);
+}
+
+/** Waits for `promise`, but no later than `deadline` (ms since the epoch). */
+async function waitUntilDeadline(promise: Promise<unknown>, deadline: number): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timeoutId = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+  });
+  try {
+    await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * @internal
+ * Stops accepting new trigger events, waits for in-flight invocations to
+ * finish, runs the shutdown hooks and stops the HTTP server. Each step is cut
+ * short once `gracePeriodMs` has passed since shutdown started.
+ */
+export function shutdown(gracePeriodMs: number): Promise<void> {
+  shutdownPromise ??= (async () => {
+    const deadline = Date.now() + gracePeriodMs;
+    await waitUntilDeadline(Promise.allSettled(inFlightInvocations), deadline);
+    for (const hook of shutdownHooks) {
+      try {
+        await waitUntilDeadline(Promise.resolve().then(hook), deadline);
+      } catch (e) {
+        console.error("Shutdown hook failed:", e);
+      }
+    }
+    if (server) {
+      await waitUntilDeadline(server.shutdown(), deadline);
+    }
+  })();
+  return shutdownPromise;
+}
+
+/**
+ * How long shutdown may take before the process exits anyway, configured
+ * through the `GLUE_SHUTDOWN_GRACE_MS` environment variable.
+ */
+function getShutdownGracePeriodMs(): number {
+  const value = Number(Deno.env.get("GLUE_SHUTDOWN_GRACE_MS"));
+  return value > 0 ? value : 10_000;
+}
+
+/**
+ * Shuts down gracefully when the process receives SIGINT or SIGTERM, then
+ * exits by re-raising the signal.
+ */
+function handleShutdownSignals() {
+  // Windows only supports listening for SIGINT and SIGBREAK.
+  const signals: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+  const listeners = signals.map((signal) => {
+    const listener = async () => {
+      // Stop listening right away so a second signal exits immediately.
+      for (const [signal, listener] of listeners) {
+        Deno.removeSignalListener(signal, listener);
+      }
+      await shutdown(getShutdownGracePeriodMs());
+      Deno.kill(Deno.pid, signal);
+    };
+    Deno.addSignalListener(signal, listener);
+    return [signal, listener] as const;
+  });
+}
+
+function countByType(registrations: Array<{ type: string }>): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const { type } of registrations) {
+    counts[type] = (counts[type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * @internal
+ * Returns the runtime's status as served on `/__glue__/info`.
+ */
+export function getRuntimeInfo(): RuntimeInfo {
+  const registrations = getRegistrations();
+  return {
+    runtimeVersion: denoConfig.version,
+    denoVersion: Deno.version.deno,
+    uptimeMs: Math.round(performance.now()),
+    inFlightInvocations: inFlightInvocations.size,
+    registrationCounts: {
+      triggers: countByType(registrations.triggers),
+      accountInjections: countByType(registrations.accountInjections),
+      secretInjections: registrations.secretInjections?.length ?? 0,
+    },
+    lastError,
+  };
+}
+
+/**
+ * Returns the glue-backend credentials of the invocation currently running.
+ * Each trigger event carries its own deployment id and auth header, so these
+ * are never shared between concurrent invocations.
+ */
+function requireBackendAuth(usage: string): BackendAuth {
+  const context = getInvocationContext();
+  if (!context?.glueDeploymentId || !context.glueAuthHeader) {
+    throw new Error(`${usage} must only be used within an event handler.`);
+  }
+  return {
+    glueDeploymentId: context.glueDeploymentId,
+    glueAuthHeader: context.glueAuthHeader,
+  };
 }
 
 let hasScheduledInit = false;
 let hasInited = false;
+let shouldServe = true;
 
-let glueDeploymentId: string | undefined;
-let glueAuthHeader: string | undefined;
+/**
+ * @internal
+ * Stops the runtime from starting its HTTP server once all registrations are
+ * made. This must be called before anything is registered. Used when handlers
+ * are invoked in-process, such as from tests.
+ */
+export function disableServer(): void {
+  if (hasScheduledInit) {
+    throw new Error("disableServer must be called before anything is registered.");
+  }
+  shouldServe = false;
+}
 
 /**
  * This function needs to be called when any triggers are registered. It
@@ -419,6 +1436,9 @@ function scheduleInit() {
 
   Promise.resolve().then(() => {
     hasInited = true;
+    if (!shouldServe) {
+      return;
+    }
 
     const GLUE_DEV_PORT = Deno.env.get("GLUE_DEV_PORT");
 
@@ -427,6 +1447,29 @@ function scheduleInit() {
       : {};
     serveOptions.onListen = () => {};
 
+    // Trigger events must be signed by glue-backend. Local development through
+    // `glue dev` may opt out by not providing a signing key.
+    const signingKey = Deno.env.get("GLUE_TRIGGER_SIGNING_KEY");
+    const requestVerifier = signingKey ? new TriggerRequestVerifier(signingKey) : undefined;
+    const requireSignedRequests = !GLUE_DEV_PORT || requestVerifier !== undefined;
+
+    // During local development, a stand-in for glue-backend can serve
+    // credentials, secrets and delayed tasks from a local file.
+    const localBackendFile = GLUE_DEV_PORT ? Deno.env.get("GLUE_LOCAL_BACKEND_FILE") : undefined;
+    if (localBackendFile) {
+      const localBackend = startLocalBackend({
+        dataFile: localBackendFile,
+        runtimeUrl: `http://127.0.0.1:${GLUE_DEV_PORT}`,
+        signingKey,
+      });
+      setBackendClient(createHttpBackendClient(() => localBackend.url));
+      registerShutdownHook(() => localBackend.shutdown());
+    }
+
+    // During local development, received events can be recorded so they can be
+    // replayed later with `replay.ts`.
+    const recordEventsFile = GLUE_DEV_PORT ? Deno.env.get("GLUE_RECORD_EVENTS_FILE") : undefined;
+
     const app = new Hono();
     app.get("/__glue__/getRegistrations", (c) => {
       return c.json(getRegistrations());
@@ -434,19 +1477,181 @@ function scheduleInit() {
     app.get("/__glue__/getRegisteredTriggers", (c) => {
       return c.json(getRegistrations().triggers);
     });
+    app.get("/__glue__/health", (c) => {
+      if (shutdownPromise) {
+        return c.json({ status: "shuttingDown" } satisfies RuntimeHealth, 503);
+      }
+      return c.json({ status: "ok" } satisfies RuntimeHealth);
+    });
+    /**
+     * Checks the signature of a request from glue-backend. Returns a response
+     * to send instead if the request must be rejected.
+     */
+    const verifyRequestSignature = async (
+      c: Context,
+      rawBody: string,
+    ): Promise<Response | undefined> => {
+      if (!requireSignedRequests) {
+        return undefined;
+      }
+      const failureReason = requestVerifier
+        ? await requestVerifier.verify(
+          rawBody,
+          c.req.header(TIMESTAMP_HEADER),
+          c.req.header(SIGNATURE_HEADER),
+        )
+        : "Request signing key is not configured";
+      return failureReason ? c.json({ error: failureReason }, 401) : undefined;
+    };
+
+    /**
+     * Reads the body of a request from glue-backend after checking its
+     * signature. Returns a response to send instead if the request must be
+     * rejected.
+     */
+    const readSignedRequest = async (
+      c: Context,
+    ): Promise<{ rawBody: string; rejection?: undefined } | { rejection: Response }> => {
+      if (shutdownPromise) {
+        return { rejection: c.json({ error: "Runtime is shutting down" }, 503) };
+      }
+
+      const rawBody = await c.req.text();
+      const rejection = await verifyRequestSignature(c, rawBody);
+      return rejection ? { rejection } : { rawBody };
+    };
+
+    // The runtime's status and metrics name its triggers and include error
+    // messages, so they're only served to glue-backend. Unlike trigger events,
+    // they're still served while the runtime shuts down.
+    app.get("/__glue__/info", async (c) => {
+      const rejection = await verifyRequestSignature(c, await c.req.text());
+      if (rejection) {
+        return rejection;
+      }
+      return c.json(getRuntimeInfo());
+    });
+    app.get("/__glue__/metrics", async (c) => {
+      const rejection = await verifyRequestSignature(c, await c.req.text());
+      if (rejection) {
+        return rejection;
+      }
+      return c.text(renderMetrics(), 200, {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      });
+    });
+
+    const getBackendAuth = (c: Context) => ({
+      glueDeploymentId: c.req.header("X-Glue-Deployment-Id"),
+      glueAuthHeader: c.req.header("X-Glue-API-Auth-Header"),
+    });
+
+    const recordEvents = async (c: Context, events: TriggerEvent[]) => {
+      if (!recordEventsFile) {
+        return;
+      }
+      const headers: Record<string, string> = {};
+      for (const name of RECORDED_HEADERS) {
+        const value = c.req.header(name);
+        if (value !== undefined) {
+          headers[name] = value;
+        }
+      }
+      try {
+        for (const event of events) {
+          await recordTriggerEvent(recordEventsFile, { ...event, headers, timestamp: Date.now() });
+        }
+      } catch (e) {
+        console.error("Failed to record trigger event:", e);
+      }
+    };
+
+    // Logs are buffered and returned with the result unless the request asks
+    // for them to be streamed as NDJSON or server-sent events.
     app.post("/__glue__/triggerEvent", async (c) => {
-      // TODO need to authenticate the request as coming from glue-backend.
+      const request = await readSignedRequest(c);
+      if (request.rejection) {
+        return request.rejection;
+      }
+      const body = TriggerEvent.parse(JSON.parse(request.rawBody));
+      await recordEvents(c, [body]);
+      const parentSpan = parseTraceparent(c.req.header("traceparent"));
 
-      glueDeploymentId = c.req.header("X-Glue-Deployment-Id");
-      glueAuthHeader = c.req.header("X-Glue-API-Auth-Header");
+      const accept = c.req.header("Accept") ?? "";
+      if (accept.includes("application/x-ndjson")) {
+        c.header("Content-Type", "application/x-ndjson");
+        return stream(c, async (stream) => {
+          await streamTriggerEvent(
+            body,
+            getBackendAuth(c),
+            parentSpan,
+            (record) => stream.write(JSON.stringify(record) + "\n"),
+          );
+        });
+      }
+      if (accept.includes("text/event-stream")) {
+        return streamSSE(c, async (stream) => {
+          await streamTriggerEvent(
+            body,
+            getBackendAuth(c),
+            parentSpan,
+            (record) => stream.writeSSE({ event: record.type, data: JSON.stringify(record) }),
+          );
+        });
+      }
 
-      const body = TriggerEvent.parse(await c.req.json());
-      const { logs, error } = await runInLoggingContext(() => handleTrigger(body));
-      const response: TriggerEventResponse = { logs, error };
+      const { logs, error, result } = await invokeTrigger(body, getBackendAuth(c), { parentSpan });
+      const response: TriggerEventResponse = { logs, error, result };
       return c.json(response);
     });
+    app.post("/__glue__/triggerEventBatch", async (c) => {
+      const request = await readSignedRequest(c);
+      if (request.rejection) {
+        return request.rejection;
+      }
+      const events = TriggerEventBatch.parse(JSON.parse(request.rawBody));
+      await recordEvents(c, events);
+      const responses: TriggerEventResponse[] = await invokeTriggerBatch(
+        events,
+        getBackendAuth(c),
+        parseTraceparent(c.req.header("traceparent")),
+      );
+      return c.json(responses);
+    });
+
+    app.post("/__glue__/pauseTrigger", async (c) => {
+      const request = await readSignedRequest(c);
+      if (request.rejection) {
+        return request.rejection;
+      }
+      const { label, ...options } = PauseTriggerRequest.parse(JSON.parse(request.rawBody));
+      try {
+        return c.json(pauseTrigger(label, options));
+      } catch (e) {
+        if (e instanceof UnknownTriggerLabelError) {
+          return c.json({ error: e.message }, 404);
+        }
+        throw e;
+      }
+    });
+    app.post("/__glue__/resumeTrigger", async (c) => {
+      const request = await readSignedRequest(c);
+      if (request.rejection) {
+        return request.rejection;
+      }
+      const { label, ...options } = ResumeTriggerRequest.parse(JSON.parse(request.rawBody));
+      try {
+        return c.json(resumeTrigger(label, options));
+      } catch (e) {
+        if (e instanceof UnknownTriggerLabelError) {
+          return c.json({ error: e.message }, 404);
+        }
+        throw e;
+      }
+    });
 
-    Deno.serve(serveOptions, app.fetch);
+    server = Deno.serve(serveOptions, app.fetch);
+    handleShutdownSignals();
 
     // Connect the lifeline once we're ready
     if (GLUE_DEV_PORT) {
@@ -466,7 +1671,8 @@ function startLifeline(cliWebsocketAddr: string) {
   const ws = new WebSocket(cliWebsocketAddr);
   ws.onclose = (_event) => {
     // Runner died so exit. Send kill signal instead of using `Deno.exit()` so
-    // we still fully exit the process when `deno run --watch` is used.
+    // we still fully exit the process when `deno run --watch` is used, and so
+    // in-flight handlers are drained by the SIGTERM handler first.
     Deno.kill(Deno.pid);
   };
   ws.onerror = (event) => {
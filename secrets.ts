@@ -6,6 +6,16 @@ export type { SecretFetcher } from "./runtimeSupport.ts";
 export interface SecretFetcherOptions {
   /** Description that appears for the secret when configuring a Glue. */
   description?: string;
+  /**
+   * A stable identifier for this secret fetcher within the Glue. If omitted, a
+   * label is assigned automatically based on registration order.
+   *
+   * Labels must start with a letter, may only contain letters, digits, `-` and
+   * `_`, can be at most 64 characters long, and must be unique within the Glue.
+   * Labels of the form `task-N` are reserved for the automatic labels of
+   * delayed tasks.
+   */
+  label?: string;
 }
 
 /**
@@ -53,6 +63,6 @@ export class Secrets {
     return registerSecretFetcher({
       name,
       description: options?.description,
-    });
+    }, options?.label);
   }
 }
@@ -0,0 +1,50 @@
+import { assertEquals, assertGreaterOrEqual } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+import { shutdown } from "./runtimeSupport.ts";
+
+const events: string[] = [];
+const releaseSlowHandler = Promise.withResolvers<void>();
+
+glue.debug.registerRawTrigger("slow", async () => {
+  events.push("handler started");
+  await releaseSlowHandler.promise;
+  events.push("handler finished");
+});
+glue.debug.registerRawTrigger("stuck", () => new Promise<void>(() => {}));
+glue.onShutdown(() => {
+  events.push("shutdown hook");
+});
+glue.onShutdown(() => {
+  throw new Error("failing hooks don't stop other hooks");
+});
+glue.onShutdown(() => {
+  events.push("second shutdown hook");
+});
+
+const harness = createTestHarness();
+
+Deno.test("shutdown drains in-flight invocations within the grace period", async () => {
+  const slowInvocation = harness.fire("slow", "0", {});
+  // This handler never finishes, so shutdown has to give up on it once the
+  // grace period is over.
+  void harness.fire("stuck", "1", {});
+
+  const start = Date.now();
+  const shutdownDone = shutdown(200).then(() => events.push("shutdown done"));
+  await Promise.resolve();
+  events.push("slow handler released");
+  releaseSlowHandler.resolve();
+  await shutdownDone;
+
+  assertEquals((await slowInvocation).error, undefined);
+  assertEquals(events, [
+    "handler started",
+    "slow handler released",
+    "handler finished",
+    "shutdown hook",
+    "second shutdown hook",
+    "shutdown done",
+  ]);
+  assertGreaterOrEqual(Date.now() - start, 200);
+});
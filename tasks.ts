@@ -1,6 +1,6 @@
 import type { CommonTriggerOptions } from "./common.ts";
 import type { DelayedTaskSchedule } from "./tasks/schedule.ts";
-import { registerDelayedTask } from "./runtimeSupport.ts";
+import { type HandlerContext, registerDelayedTask } from "./runtimeSupport.ts";
 
 /**
  * A reference to a delayed task that can be scheduled to run later from within
@@ -65,7 +65,10 @@ export class Tasks {
    * scheduled but has not yet run, then the task will eventually be run with
    * the new version of the Glue script. Tasks are identified by their
    * registration order, so new calls to `createDelayedTask` should only be
-   * added after existing calls to `createDelayedTask`.
+   * added after existing calls to `createDelayedTask`. Deployments that reorder,
+   * remove or rename tasks are detected by comparing the fingerprints of the
+   * tasks' callbacks, which recognize named callbacks even after they are
+   * edited.
    *
    * @example
    * ```typescript
@@ -83,7 +86,7 @@ export class Tasks {
    * ```
    */
   createDelayedTask<T>(
-    fn: (event: T) => void | Promise<void>,
+    fn: (event: T, ctx: HandlerContext) => void | Promise<void>,
     options?: CommonTriggerOptions,
   ): DelayedTask<T> {
     return registerDelayedTask<T>(fn, options);
@@ -0,0 +1,96 @@
+import { assertEquals, assertMatch, assertNotEquals } from "@std/assert";
+import type { DelayedTaskFingerprint, Registrations } from "../backendTypes.ts";
+import {
+  compareDelayedTasks,
+  fingerprintDelayedTask,
+  formatDelayedTaskChange,
+} from "./fingerprint.ts";
+
+function registrations(
+  tasks: Array<[label: string, fingerprint: DelayedTaskFingerprint | undefined]>,
+): Registrations {
+  return {
+    triggers: [
+      { type: "webhook", label: "0", config: {} },
+      ...tasks.map(([label, fingerprint]) => ({
+        type: "delayedTask",
+        label,
+        config: {},
+        ...(fingerprint ? { fingerprint } : {}),
+      })),
+    ],
+    accountInjections: [],
+  };
+}
+
+const sendReminder = { sourceHash: "aaa", name: "sendReminder" };
+const sendInvoice = { sourceHash: "bbb", name: "sendInvoice" };
+const anonymous = { sourceHash: "ccc" };
+
+Deno.test("fingerprintDelayedTask hashes the callback source and keeps its name", () => {
+  function sendReminder(_event: { userId: string }) {}
+  const fingerprint = fingerprintDelayedTask(sendReminder);
+  assertEquals(fingerprint.name, "sendReminder");
+  assertMatch(fingerprint.sourceHash, /^[0-9a-f]{64}$/);
+  assertEquals(fingerprintDelayedTask(sendReminder), fingerprint);
+
+  // Arrow functions that aren't assigned to a variable have no name.
+  assertEquals("name" in fingerprintDelayedTask([(_event: unknown) => {}][0]), false);
+  assertNotEquals(
+    fingerprintDelayedTask([() => 1][0]).sourceHash,
+    fingerprintDelayedTask([() => 2][0]).sourceHash,
+  );
+});
+
+Deno.test("compareDelayedTasks ignores unchanged and edited tasks", () => {
+  assertEquals(
+    compareDelayedTasks(
+      registrations([["task-0", sendReminder], ["task-1", anonymous]]),
+      registrations([
+        ["task-0", { ...sendReminder, sourceHash: "edited" }],
+        ["task-1", anonymous],
+        ["task-2", sendInvoice],
+      ]),
+    ),
+    [],
+  );
+});
+
+Deno.test("compareDelayedTasks reports reordered tasks", () => {
+  const changes = compareDelayedTasks(
+    registrations([["task-0", sendReminder], ["task-1", anonymous]]),
+    registrations([["task-0", sendInvoice], ["task-1", sendReminder], ["task-2", anonymous]]),
+  );
+  assertEquals(changes, [
+    { kind: "reordered", label: "task-0", newLabel: "task-1" },
+    { kind: "reordered", label: "task-1", newLabel: "task-2" },
+  ]);
+  assertEquals(
+    formatDelayedTaskChange(changes[0]),
+    "Delayed task task-0 is now task-1. Pending tasks scheduled for task-0 will run another callback. Add new delayed tasks after existing ones, or give them labels.",
+  );
+});
+
+Deno.test("compareDelayedTasks reports removed tasks", () => {
+  assertEquals(
+    compareDelayedTasks(
+      registrations([["task-0", sendReminder], ["task-1", undefined]]),
+      registrations([]),
+    ),
+    [{ kind: "removed", label: "task-0" }, { kind: "removed", label: "task-1" }],
+  );
+});
+
+Deno.test("compareDelayedTasks reports renamed tasks", () => {
+  const changes = compareDelayedTasks(
+    registrations([["task-0", sendReminder]]),
+    registrations([["task-0", sendInvoice]]),
+  );
+  assertEquals(changes, [
+    { kind: "renamed", label: "task-0", previousName: "sendReminder", name: "sendInvoice" },
+  ]);
+  assertEquals(
+    formatDelayedTaskChange(changes[0]),
+    "Delayed task task-0 changed from sendReminder to sendInvoice. Pending tasks scheduled for it will run sendInvoice.",
+  );
+});
@@ -0,0 +1,146 @@
+/**
+ * Detects changes between deployments that would make pending delayed tasks
+ * run the wrong callback.
+ *
+ * Delayed tasks without a label are identified by their registration order, so
+ * a task that is scheduled but hasn't run when a new version of a Glue is
+ * deployed runs whichever callback now has its label. Each delayed task's
+ * registration carries a {@link DelayedTaskFingerprint}, and
+ * {@link compareDelayedTasks} uses the fingerprints of the old and new
+ * deployment to find tasks that were reordered, removed or renamed.
+ *
+ * @example
+ * ```typescript
+ * const changes = compareDelayedTasks(deployedRegistrations, newRegistrations);
+ * for (const change of changes) {
+ *   console.warn(formatDelayedTaskChange(change));
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import type {
+  DelayedTaskFingerprint,
+  Registrations,
+  TriggerRegistration,
+} from "../backendTypes.ts";
+
+/** The trigger type the runtime registers delayed tasks with. */
+const DELAYED_TASK_TRIGGER_TYPE = "delayedTask";
+
+/**
+ * A change to a delayed task that would make tasks scheduled by the previous
+ * deployment run the wrong callback, or fail, in the next one.
+ */
+export type DelayedTaskChange =
+  | {
+    /** The task's callback now has another label. */
+    kind: "reordered";
+    /** The label pending tasks were scheduled with. */
+    label: string;
+    /** The label the task's callback has now. */
+    newLabel: string;
+  }
+  | {
+    /** No task has the label anymore. */
+    kind: "removed";
+    label: string;
+  }
+  | {
+    /** The label now refers to a callback with another name. */
+    kind: "renamed";
+    label: string;
+    previousName: string;
+    name: string;
+  };
+
+/**
+ * Computes the fingerprint of a delayed task's callback.
+ *
+ * @internal
+ */
+export function fingerprintDelayedTask(fn: (...args: never[]) => unknown): DelayedTaskFingerprint {
+  const sourceHash = createHash("sha256").update(fn.toString()).digest("hex");
+  return fn.name ? { sourceHash, name: fn.name } : { sourceHash };
+}
+
+/**
+ * The identity used to recognize a task's callback in another deployment: its
+ * name if it has one, otherwise its source, so that editing a named callback
+ * doesn't count as replacing it.
+ */
+function taskIdentity(fingerprint: DelayedTaskFingerprint): string {
+  return fingerprint.name !== undefined
+    ? `name:${fingerprint.name}`
+    : `source:${fingerprint.sourceHash}`;
+}
+
+function getDelayedTasks(registrations: Registrations): Map<string, TriggerRegistration> {
+  return new Map(
+    registrations.triggers
+      .filter((trigger) => trigger.type === DELAYED_TASK_TRIGGER_TYPE)
+      .map((trigger) => [trigger.label, trigger]),
+  );
+}
+
+/**
+ * Compares the delayed tasks of two deployments and reports changes that would
+ * make tasks scheduled by the `previous` deployment misbehave in the `next`
+ * one. Editing a task's callback in place isn't reported. Tasks registered
+ * without a fingerprint, such as by older runtime versions, can only be
+ * reported as removed.
+ */
+export function compareDelayedTasks(
+  previous: Registrations,
+  next: Registrations,
+): DelayedTaskChange[] {
+  const previousTasks = getDelayedTasks(previous);
+  const nextTasks = getDelayedTasks(next);
+  const nextLabelsByIdentity = new Map<string, string>();
+  for (const [label, { fingerprint }] of nextTasks) {
+    if (fingerprint) {
+      nextLabelsByIdentity.set(taskIdentity(fingerprint), label);
+    }
+  }
+
+  const changes: DelayedTaskChange[] = [];
+  for (const [label, { fingerprint }] of previousTasks) {
+    const nextFingerprint = nextTasks.get(label)?.fingerprint;
+    if (
+      fingerprint && nextFingerprint &&
+      taskIdentity(fingerprint) === taskIdentity(nextFingerprint)
+    ) {
+      continue;
+    }
+    const newLabel = fingerprint && nextLabelsByIdentity.get(taskIdentity(fingerprint));
+    if (newLabel !== undefined && newLabel !== label) {
+      changes.push({ kind: "reordered", label, newLabel });
+    } else if (!nextTasks.has(label)) {
+      changes.push({ kind: "removed", label });
+    } else if (
+      fingerprint?.name !== undefined && nextFingerprint?.name !== undefined
+    ) {
+      changes.push({
+        kind: "renamed",
+        label,
+        previousName: fingerprint.name,
+        name: nextFingerprint.name,
+      });
+    }
+  }
+  return changes;
+}
+
+/** Describes a {@link DelayedTaskChange} as a warning message. */
+export function formatDelayedTaskChange(change: DelayedTaskChange): string {
+  switch (change.kind) {
+    case "reordered":
+      return `Delayed task ${change.label} is now ${change.newLabel}. Pending tasks scheduled for ${change.label} will run another callback. Add new delayed tasks after existing ones, or give them labels.`;
+    case "removed":
+      return `Delayed task ${change.label} was removed. Pending tasks scheduled for it will fail.`;
+    case "renamed":
+      return `Delayed task ${change.label} changed from ${change.previousName} to ${change.name}. Pending tasks scheduled for it will run ${change.name}.`;
+  }
+}
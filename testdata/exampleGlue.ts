@@ -0,0 +1,58 @@
+// A small Glue script used by testing.test.ts.
+import { glue } from "../mod.ts";
+
+const githubCredential = glue.github.createCredentialFetcher({ scopes: ["repo"] });
+const apiKey = glue.secrets.createSecretFetcher("example api key");
+
+const followUpTask = glue.tasks.createDelayedTask((event: { number: number }) => {
+  console.log(`following up on #${event.number}`);
+});
+
+glue.github.onPullRequestEvent("StreakYC", "glue-runtime", async (event) => {
+  const { accessToken } = await githubCredential.get();
+  console.log(`PR ${event.payload.action} with token ${accessToken}`);
+  await followUpTask.schedule({ number: event.payload.number }, { delay: "1 day" });
+});
+
+glue.webhook.onPost(async () => {
+  console.log(`api key: ${await apiKey.get()}`);
+});
+
+glue.webhook.onGet(() => {
+  throw new Error("GET is not supported");
+});
+
+glue.webhook.onWebhook(async () => {
+  const signal = glue.signal;
+  await new Promise((resolve) => signal.addEventListener("abort", resolve));
+}, { method: "PUT", timeoutMs: 50 });
+
+let patchAttempts = 0;
+glue.webhook.onWebhook(() => {
+  if (++patchAttempts === 1) {
+    throw new Error("flaky");
+  }
+  console.log(`patched on attempt ${patchAttempts}`);
+  return { attempts: patchAttempts };
+}, {
+  method: "PATCH",
+  retryOnFailure: { maxAttempts: 3, initialDelayMs: 0, maxDelayMs: 0 },
+});
+
+glue.webhook.onWebhook(() => {
+  throw new Error("OPTIONS is never supported");
+}, {
+  method: "OPTIONS",
+  label: "always-fails",
+  retryOnFailure: { maxAttempts: 2, initialDelayMs: 0, maxDelayMs: 0 },
+});
+
+glue.webhook.onWebhook(() => BigInt(1), { method: "DELETE" });
+
+glue.onError((error, { type, label, data }) => {
+  console.log(`onError ${type} ${label} ${JSON.stringify(data)}: ${(error as Error).message}`);
+});
+
+glue.stripe.onCustomerCreated((event) => {
+  console.log(`customer created: ${event.data.object.id}`);
+}, { dedupe: true });
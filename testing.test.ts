@@ -0,0 +1,145 @@
+import { assertEquals, assertRejects, assertStringIncludes } from "@std/assert";
+import { loadGlueScript } from "./testing.ts";
+import { glue } from "./mod.ts";
+import type { GithubEvent, StripeEvent } from "./mod.ts";
+
+const harness = await loadGlueScript(new URL("./testdata/exampleGlue.ts", import.meta.url));
+
+const pullRequestEvent = {
+  event: "pull_request",
+  payload: { action: "opened", number: 7 },
+} as GithubEvent<"pull_request">;
+
+Deno.test("registrations lists the script's registrations", () => {
+  assertEquals(harness.registrations.triggers.map(({ type, label }) => ({ type, label })), [
+    { type: "delayedTask", label: "task-0" },
+    { type: "github", label: "2" },
+    { type: "webhook", label: "3" },
+    { type: "webhook", label: "4" },
+    { type: "webhook", label: "5" },
+    { type: "webhook", label: "6" },
+    { type: "webhook", label: "always-fails" },
+    { type: "webhook", label: "7" },
+    { type: "stripe", label: "8" },
+  ]);
+  assertEquals(harness.registrations.accountInjections.map(({ type }) => type), ["github"]);
+  assertEquals(harness.registrations.secretInjections?.map(({ config }) => config.name), [
+    "example api key",
+  ]);
+});
+
+Deno.test("fire reports missing stubs as handler errors", async () => {
+  const { error } = await harness.fire(glue.github, "pull_request", pullRequestEvent);
+  assertEquals(
+    error?.split("\n")[0],
+    'Error: No credential stubbed for the "github" credential fetcher with label "0". Use setCredential() to provide one.',
+  );
+});
+
+Deno.test("fire runs the matching handler with stubbed credentials", async () => {
+  harness.setCredential("github", { accessToken: "fake-token" });
+  const { logs, error } = await harness.fire(glue.github, "pull_request", pullRequestEvent);
+  assertEquals(error, undefined);
+  assertEquals(logs.map((log) => log.text), ["PR opened with token fake-token\n"]);
+  assertEquals(harness.scheduledTasks.length, 1);
+  assertEquals(harness.scheduledTasks[0].label, "task-0");
+  assertEquals(harness.scheduledTasks[0].data, { number: 7 });
+});
+
+Deno.test("fire can run delayed tasks", async () => {
+  const { logs, error } = await harness.fire(glue.tasks, "task-0", { number: 7 });
+  assertEquals(error, undefined);
+  assertEquals(logs.map((log) => log.text), ["following up on #7\n"]);
+});
+
+Deno.test("fire uses stubbed secrets", async () => {
+  harness.setSecret("example api key", "secret-value");
+  const { logs, error } = await harness.fire(glue.webhook, "POST", {
+    method: "POST",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error, undefined);
+  assertEquals(logs.map((log) => log.text), ["api key: secret-value\n"]);
+});
+
+Deno.test("fire captures handler errors", async () => {
+  const { logs, error } = await harness.fire(glue.webhook, "4", {
+    method: "GET",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error?.split("\n")[0], "Error: GET is not supported");
+  assertEquals(
+    logs.map((log) => log.text).filter((text) => text.startsWith("onError")),
+    ['onError webhook 4 {"method":"GET","urlParams":{},"headers":{}}: GET is not supported\n'],
+  );
+});
+
+Deno.test("fire aborts handlers that exceed their timeout", async () => {
+  const { error } = await harness.fire(glue.webhook, "PUT", {
+    method: "PUT",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error?.split("\n")[0], "HandlerTimeoutError: Handler timed out after 50ms");
+});
+
+Deno.test("fire retries handlers with a retry policy", async () => {
+  const { logs, error, result } = await harness.fire(glue.webhook, "PATCH", {
+    method: "PATCH",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error, undefined);
+  assertEquals(result, { attempts: 2 });
+  assertEquals(logs.length, 2);
+  assertStringIncludes(logs[0].text, "Attempt 1 of 3 failed, retrying: Error: flaky");
+  assertEquals(logs[1].text, "patched on attempt 2\n");
+});
+
+Deno.test("fire passes the last attempt's error to onError once retries run out", async () => {
+  const { logs, error } = await harness.fire(glue.webhook, "always-fails", {
+    method: "OPTIONS",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(error?.split("\n")[0], "Error: OPTIONS is never supported");
+  assertEquals(
+    logs.map((log) => log.text).filter((text) => text.startsWith("onError")),
+    [
+      'onError webhook always-fails {"method":"OPTIONS","urlParams":{},"headers":{}}: OPTIONS is never supported\n',
+    ],
+  );
+});
+
+Deno.test("fire rejects handler results that aren't JSON-serializable", async () => {
+  const { error, result } = await harness.fire(glue.webhook, "DELETE", {
+    method: "DELETE",
+    urlParams: {},
+    headers: {},
+  });
+  assertEquals(result, undefined);
+  assertStringIncludes(error ?? "", "Error: Handler result is not JSON-serializable");
+});
+
+Deno.test("fire drops redelivered events of triggers with dedupe", async () => {
+  const event = {
+    id: "evt_1",
+    type: "customer.created",
+    data: { object: { id: "cus_1" } },
+  } as StripeEvent<"customer.created">;
+  const first = await harness.fire(glue.stripe, "customer.created", event);
+  assertEquals(first.logs.map((log) => log.text), ["customer created: cus_1\n"]);
+  const second = await harness.fire(glue.stripe, "customer.created", event);
+  assertEquals(second.error, undefined);
+  assertEquals(second.logs.map((log) => log.text), ['Dropped duplicate stripe event "evt_1"\n']);
+});
+
+Deno.test("fire requires the selector to match exactly one trigger", async () => {
+  await assertRejects(
+    () => harness.fire(glue.webhook, "webhook", { method: "GET", urlParams: {}, headers: {} }),
+    Error,
+    'Expected exactly one "webhook" trigger matching "webhook", found 0.',
+  );
+});
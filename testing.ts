@@ -0,0 +1,257 @@
+/**
+ * Utilities for unit testing Glue scripts in-process, without starting the
+ * runtime's HTTP server or talking to glue-backend.
+ *
+ * Import this module before the Glue script under test, then load the script
+ * with {@link loadGlueScript} and fire events at its triggers.
+ *
+ * @example
+ * ```typescript
+ * import { assertEquals } from "jsr:@std/assert";
+ * import { glue } from "jsr:@streak-glue/runtime";
+ * import { loadGlueScript } from "jsr:@streak-glue/runtime/testing";
+ *
+ * const harness = await loadGlueScript(new URL("./myGlue.ts", import.meta.url));
+ * harness.setCredential("github", { accessToken: "fake-token" });
+ *
+ * Deno.test("handles opened pull requests", async () => {
+ *   const { logs, error } = await harness.fire(glue.github, "pull_request", {
+ *     event: "pull_request",
+ *     payload: openedPullRequestPayload,
+ *   });
+ *   assertEquals(error, undefined);
+ *   assertEquals(harness.scheduledTasks.length, 1);
+ * });
+ * ```
+ *
+ * @module
+ */
+
+import type { SlackEvent } from "@slack/types";
+import type { WebhookEventName } from "@octokit/webhooks-types";
+import { type Glue, glue } from "./mod.ts";
+import type {
+  GithubEvent,
+  IntercomEvent,
+  NotionEventType,
+  SlackEventType,
+  SlackEventWebhook,
+  StripeEvent,
+  WebhookEvent,
+} from "./mod.ts";
+import type { StripeEventType } from "./integrations/stripe/runtime.ts";
+import type { NotionWebhookPayloadByType } from "./integrations/notion/runtime.ts";
+import type { Registrations, TriggerRegistration } from "./backendTypes.ts";
+import type { BackendClient, DelayedTaskScheduleRequest } from "./backendClient.ts";
+import type { Log } from "./logging.ts";
+import {
+  clearCredentialCache,
+  disableServer,
+  getRegistrations,
+  invokeTrigger,
+  setBackendClient,
+  type TriggerEventResponse,
+} from "./runtimeSupport.ts";
+
+export type { Log };
+
+disableServer();
+
+/** The logs and error captured from one handler invocation. */
+export type InvocationResult = TriggerEventResponse;
+
+/** A delayed task that a handler scheduled during a test. */
+export interface ScheduledTask extends DelayedTaskScheduleRequest {
+  /** The label of the scheduled delayed task. */
+  label: string;
+}
+
+/** Trigger types of the event sources on {@link glue}. */
+const triggerTypesBySource = new Map<unknown, string>([
+  [glue.drive, "drive"],
+  [glue.sheets, "sheets"],
+  [glue.gmail, "gmail"],
+  [glue.webhook, "webhook"],
+  [glue.cron, "cron"],
+  [glue.github, "github"],
+  [glue.streak, "streak"],
+  [glue.stripe, "stripe"],
+  [glue.intercom, "intercom"],
+  [glue.slack, "slack"],
+  [glue.notion, "notion"],
+  [glue.tasks, "delayedTask"],
+]);
+
+/**
+ * Whether a trigger registration matches a selector passed to
+ * {@link GlueTestHarness.fire}: either its label, or a value in its config such
+ * as one of its event names.
+ */
+function matchesSelector(trigger: TriggerRegistration, selector: string): boolean {
+  if (trigger.label === selector) {
+    return true;
+  }
+  return Object.values(trigger.config ?? {}).some((value) =>
+    value === selector || (Array.isArray(value) && value.includes(selector))
+  );
+}
+
+/**
+ * Fires events at the triggers of a Glue script and fakes the calls handlers
+ * make to glue-backend. Create one with {@link loadGlueScript} or
+ * {@link createTestHarness}.
+ *
+ * Registrations are global to the process, so all harnesses see the same
+ * triggers. Only the most recently created harness receives calls from
+ * credential fetchers, secret fetchers and delayed tasks.
+ */
+export class GlueTestHarness {
+  readonly #credentialsByLabel = new Map<string, unknown>();
+  readonly #credentialsByType = new Map<string, unknown>();
+  readonly #secretsByName = new Map<string, string>();
+
+  /** Delayed tasks scheduled by handlers, in the order they were scheduled. */
+  readonly scheduledTasks: ScheduledTask[] = [];
+
+  constructor() {
+    const client: BackendClient = {
+      fetchCredential: (_auth, type, label) => {
+        if (this.#credentialsByLabel.has(label)) {
+          return Promise.resolve(this.#credentialsByLabel.get(label));
+        }
+        if (this.#credentialsByType.has(type)) {
+          return Promise.resolve(this.#credentialsByType.get(type));
+        }
+        return Promise.reject(
+          new Error(
+            `No credential stubbed for the ${JSON.stringify(type)} credential fetcher with label ${
+              JSON.stringify(label)
+            }. Use setCredential() to provide one.`,
+          ),
+        );
+      },
+      fetchSecret: (_auth, label) => {
+        const name = this.registrations.secretInjections
+          ?.find((secret) => secret.label === label)?.config.name;
+        const value = name === undefined ? undefined : this.#secretsByName.get(name);
+        if (value === undefined) {
+          return Promise.reject(
+            new Error(
+              `No value stubbed for the secret ${
+                JSON.stringify(name)
+              }. Use setSecret() to provide one.`,
+            ),
+          );
+        }
+        return Promise.resolve(value);
+      },
+      scheduleDelayedTask: (_auth, label, request) => {
+        this.scheduledTasks.push({ label, ...request });
+        return Promise.resolve();
+      },
+    };
+    setBackendClient(client);
+  }
+
+  /** Everything the Glue script has registered. */
+  get registrations(): Registrations {
+    return getRegistrations();
+  }
+
+  /**
+   * Sets the credential returned by credential fetchers. `typeOrLabel` is
+   * either a credential fetcher's type (such as `"github"`), which applies to
+   * every fetcher of that type, or the label of a specific fetcher.
+   */
+  setCredential(typeOrLabel: string, credential: unknown): void {
+    clearCredentialCache();
+    const isLabel = this.registrations.accountInjections
+      .some((fetcher) => fetcher.label === typeOrLabel);
+    if (isLabel) {
+      this.#credentialsByLabel.set(typeOrLabel, credential);
+    } else {
+      this.#credentialsByType.set(typeOrLabel, credential);
+    }
+  }
+
+  /** Sets the value returned by secret fetchers for the secret `name`. */
+  setSecret(name: string, value: string): void {
+    this.#secretsByName.set(name, value);
+  }
+
+  /**
+   * Runs the handler of a trigger with the given event data and returns the
+   * logs and error captured from it.
+   *
+   * @param source The event source the trigger was registered with, such as
+   * `glue.github`, or a raw trigger type string.
+   * @param selector The trigger's label, or a value from its configuration
+   * that identifies it, such as an event name. It must match exactly one of
+   * the source's triggers.
+   * @param data The event data passed to the handler.
+   */
+  fire<T extends WebhookEventName>(
+    source: Glue["github"],
+    selector: T,
+    data: GithubEvent<T>,
+  ): Promise<InvocationResult>;
+  fire<T extends StripeEventType>(
+    source: Glue["stripe"],
+    selector: T,
+    data: StripeEvent<T>,
+  ): Promise<InvocationResult>;
+  fire<T extends SlackEventType>(
+    source: Glue["slack"],
+    selector: T,
+    data: SlackEventWebhook<Extract<SlackEvent, { type: T }>>,
+  ): Promise<InvocationResult>;
+  fire<T extends string>(
+    source: Glue["intercom"],
+    selector: T,
+    data: IntercomEvent<T>,
+  ): Promise<InvocationResult>;
+  fire<T extends NotionEventType>(
+    source: Glue["notion"],
+    selector: T,
+    data: NotionWebhookPayloadByType[T],
+  ): Promise<InvocationResult>;
+  fire(source: Glue["webhook"], selector: string, data: WebhookEvent): Promise<InvocationResult>;
+  fire(source: object | string, selector: string, data: unknown): Promise<InvocationResult>;
+  async fire(source: object | string, selector: string, data: unknown): Promise<InvocationResult> {
+    const type = typeof source === "string" ? source : triggerTypesBySource.get(source);
+    if (type === undefined) {
+      throw new Error("Unknown event source passed to fire()");
+    }
+    const matches = this.registrations.triggers
+      .filter((trigger) => trigger.type === type && matchesSelector(trigger, selector));
+    if (matches.length !== 1) {
+      throw new Error(
+        `Expected exactly one ${JSON.stringify(type)} trigger matching ${
+          JSON.stringify(selector)
+        }, found ${matches.length}. Pass a trigger label to pick a specific trigger.`,
+      );
+    }
+    return await invokeTrigger(
+      { type, label: matches[0].label, data },
+      { glueDeploymentId: "test-deployment", glueAuthHeader: "test-auth" },
+    );
+  }
+}
+
+/**
+ * Creates a harness for triggers that have already been registered, such as
+ * by a Glue script imported after this module.
+ */
+export function createTestHarness(): GlueTestHarness {
+  return new GlueTestHarness();
+}
+
+/**
+ * Imports the Glue script at `specifier` and returns a harness for its
+ * triggers. The script is only evaluated once per process, like any other
+ * module.
+ */
+export async function loadGlueScript(specifier: string | URL): Promise<GlueTestHarness> {
+  await import(String(specifier));
+  return createTestHarness();
+}
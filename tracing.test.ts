@@ -0,0 +1,182 @@
+import { assertEquals, assertMatch, assertRejects } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+import { resetOtlpExporter, shutdown } from "./runtimeSupport.ts";
+import { formatTraceparent, parseTraceparent, type Span, withSpan } from "./tracing.ts";
+
+interface ExportedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  attributes: Array<{ key: string; value: Record<string, unknown> }>;
+  status: { code?: number; message?: string };
+}
+
+// A local collector that receives the spans exported by the runtime.
+const exportedSpans: ExportedSpan[] = [];
+let spansReceived = Promise.withResolvers<void>();
+const collector = Deno.serve(
+  { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+  async (req) => {
+    const body = await req.json();
+    assertEquals(new URL(req.url).pathname, "/v1/traces");
+    assertEquals(body.resourceSpans[0].resource.attributes, [
+      { key: "service.name", value: { stringValue: "tracing-test" } },
+    ]);
+    exportedSpans.push(...body.resourceSpans[0].scopeSpans[0].spans);
+    spansReceived.resolve();
+    return new Response(null, { status: 200 });
+  },
+);
+
+/**
+ * Points the runtime's exporter at the collector while `fn` runs. The
+ * environment variables are restored and the exporter is reset afterwards, so
+ * nothing is exported to the collector once it's closed.
+ */
+async function withCollectorEnv(fn: () => Promise<void>) {
+  const names = ["OTEL_EXPORTER_OTLP_ENDPOINT", "OTEL_SERVICE_NAME"];
+  const previous = names.map((name) => [name, Deno.env.get(name)] as const);
+  Deno.env.set("OTEL_EXPORTER_OTLP_ENDPOINT", `http://127.0.0.1:${collector.addr.port}/`);
+  Deno.env.set("OTEL_SERVICE_NAME", "tracing-test");
+  // The exporter is configured from the environment on the next invocation.
+  resetOtlpExporter();
+  try {
+    await fn();
+  } finally {
+    for (const [name, value] of previous) {
+      if (value === undefined) {
+        Deno.env.delete(name);
+      } else {
+        Deno.env.set(name, value);
+      }
+    }
+    resetOtlpExporter();
+    await collector.shutdown();
+  }
+}
+
+const credential = glue.debug.registerRawCredentialFetcher("testAccount", {});
+const followUp = glue.tasks.createDelayedTask((_event: { id: number }) => {});
+glue.webhook.onPost(async () => {
+  await glue.trace.span("parse", (span) => {
+    span.setAttribute("rows", 3);
+    console.log("parsing");
+  });
+  await credential.get();
+  await followUp.schedule({ id: 1 }, { delay: "1 minute" });
+});
+
+glue.debug.registerRawTrigger("failing", () => {
+  throw new Error("boom");
+});
+
+const harness = createTestHarness();
+harness.setCredential("testAccount", { accessToken: "token" });
+
+Deno.test("parseTraceparent reads W3C trace context headers", () => {
+  const header = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+  const context = parseTraceparent(header);
+  assertEquals(context, {
+    traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
+    spanId: "00f067aa0ba902b7",
+    sampled: true,
+  });
+  assertEquals(formatTraceparent(context!), header);
+  assertEquals(
+    parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-00")?.sampled,
+    false,
+  );
+  for (
+    const invalid of [
+      undefined,
+      "",
+      "01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      "00-00000000000000000000000000000000-00f067aa0ba902b7-01",
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01",
+      "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7",
+    ]
+  ) {
+    assertEquals(parseTraceparent(invalid), undefined);
+  }
+});
+
+Deno.test("withSpan nests spans in the active span's trace", async () => {
+  let outer: Span | undefined;
+  let inner: Span | undefined;
+  await withSpan("outer", async (span) => {
+    outer = span;
+    await withSpan("inner", (span) => {
+      inner = span;
+    });
+  });
+  assertMatch(outer!.traceId, /^[0-9a-f]{32}$/);
+  assertEquals(outer!.parentSpanId, undefined);
+  assertEquals(inner!.traceId, outer!.traceId);
+  assertEquals(inner!.parentSpanId, outer!.spanId);
+});
+
+Deno.test("withSpan records errors", async () => {
+  let failed: Span | undefined;
+  await assertRejects(() =>
+    withSpan("failing", (span) => {
+      failed = span;
+      throw new TypeError("bad input");
+    })
+  );
+  assertEquals(failed!.errorMessage, "TypeError: bad input");
+  assertEquals(typeof failed!.endTime, "number");
+});
+
+Deno.test("invocations are traced and exported to the collector", (t) =>
+  withCollectorEnv(async () => {
+    await t.step("successful invocations", async () => {
+      spansReceived = Promise.withResolvers();
+      const { logs, error } = await harness.fire(glue.webhook, "POST", {
+        method: "POST",
+        urlParams: {},
+        headers: {},
+      });
+      assertEquals(error, undefined);
+      await spansReceived.promise;
+
+      const spansByName = new Map(exportedSpans.map((span) => [span.name, span]));
+      const invocation = spansByName.get("triggerEvent")!;
+      assertEquals(invocation.kind, 2);
+      assertEquals(invocation.parentSpanId, undefined);
+      assertEquals(invocation.attributes, [
+        { key: "glue.trigger.type", value: { stringValue: "webhook" } },
+        { key: "glue.trigger.label", value: { stringValue: "1" } },
+      ]);
+      for (const name of ["parse", "CredentialFetcher.get", "DelayedTask.schedule"]) {
+        const span = spansByName.get(name)!;
+        assertEquals(span.traceId, invocation.traceId);
+        assertEquals(span.parentSpanId, invocation.spanId);
+      }
+      assertEquals(spansByName.get("parse")!.attributes, [
+        { key: "rows", value: { intValue: "3" } },
+      ]);
+
+      assertEquals(logs.map((log) => log.traceId), [invocation.traceId]);
+      const schedule = spansByName.get("DelayedTask.schedule")!;
+      assertEquals(
+        harness.scheduledTasks[0].traceparent,
+        `00-${invocation.traceId}-${schedule.spanId}-01`,
+      );
+    });
+
+    await t.step("failed invocations are exported with an error status", async () => {
+      exportedSpans.length = 0;
+      spansReceived = Promise.withResolvers();
+      const { error } = await harness.fire("failing", "2", {});
+      assertEquals(error?.split("\n")[0], "Error: boom");
+      // Shutting down sends the buffered spans and waits for the export.
+      await shutdown(1000);
+      await spansReceived.promise;
+      assertEquals(exportedSpans.map(({ name, status }) => ({ name, status })), [
+        { name: "triggerEvent", status: { code: 2, message: "Error: boom" } },
+      ]);
+    });
+  }));
@@ -0,0 +1,280 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/** Identifies a span, as propagated in W3C `traceparent` headers. */
+export interface SpanContext {
+  /** 32 lowercase hex characters. */
+  traceId: string;
+  /** 16 lowercase hex characters. */
+  spanId: string;
+  /** Whether the span is recorded and exported. */
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parses a W3C `traceparent` header. Returns `undefined` if the header is
+ * missing or invalid, in which case a new trace should be started.
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | undefined {
+  const match = header && TRACEPARENT_PATTERN.exec(header.trim());
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return undefined;
+  }
+  return {
+    traceId: match[1],
+    spanId: match[2],
+    sampled: (parseInt(match[3], 16) & 1) === 1,
+  };
+}
+
+/** Formats a span's context as a W3C `traceparent` header. */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? "01" : "00"}`;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(bytes)),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/** Values that can be attached to a span. */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/** The role of a span, as defined by OpenTelemetry. */
+export type SpanKind = "internal" | "server" | "client";
+
+/** A timed operation within a trace. */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string = randomHex(8);
+  readonly parentSpanId: string | undefined;
+  readonly sampled: boolean;
+  /** When the span started, in milliseconds since the epoch. */
+  readonly startTime: number = performance.timeOrigin + performance.now();
+  /** When the span ended, in milliseconds since the epoch. */
+  endTime: number | undefined;
+  readonly attributes: SpanAttributes = {};
+  /** The message of the error the operation failed with, if it failed. */
+  errorMessage: string | undefined;
+
+  /** @internal */
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    parent: SpanContext | undefined,
+  ) {
+    this.traceId = parent?.traceId ?? randomHex(16);
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+  }
+
+  /** The context to propagate to operations that continue this span's trace. */
+  get context(): SpanContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.sampled };
+  }
+
+  /** Attaches a value to the span. */
+  setAttribute(key: string, value: string | number | boolean): this {
+    this.attributes[key] = value;
+    return this;
+  }
+
+  /** Marks the operation as failed. */
+  recordError(error: unknown): this {
+    this.errorMessage = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    return this;
+  }
+}
+
+/** Receives spans once they end. */
+export interface SpanExporter {
+  export(span: Span): void;
+}
+
+let spanExporter: SpanExporter | undefined;
+
+/**
+ * @internal
+ * Sets where ended spans are sent. Spans aren't exported without an exporter,
+ * but trace ids are still assigned and propagated.
+ */
+export function setSpanExporter(exporter: SpanExporter | undefined): void {
+  spanExporter = exporter;
+}
+
+const asyncLocalStorage = new AsyncLocalStorage<Span>();
+
+/** Returns the span of the operation currently running, if any. */
+export function getActiveSpan(): Span | undefined {
+  return asyncLocalStorage.getStore();
+}
+
+/** Options for {@link withSpan}. */
+export interface SpanOptions {
+  kind?: SpanKind;
+  /**
+   * The span to continue the trace of. Defaults to the active span. Pass
+   * `undefined` explicitly to start a new trace.
+   */
+  parent?: SpanContext | undefined;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Runs `fn` in a new span, which is active for everything `fn` calls. The span
+ * ends, and records the error if `fn` throws, when `fn` settles.
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => T | Promise<T>,
+  options: SpanOptions = {},
+): Promise<T> {
+  const parent = "parent" in options ? options.parent : getActiveSpan()?.context;
+  const span = new Span(name, options.kind ?? "internal", parent);
+  Object.assign(span.attributes, options.attributes);
+  try {
+    return await asyncLocalStorage.run(span, () => fn(span));
+  } catch (e) {
+    span.recordError(e);
+    throw e;
+  } finally {
+    span.endTime = performance.timeOrigin + performance.now();
+    if (span.sampled) {
+      spanExporter?.export(span);
+    }
+  }
+}
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_ERROR = 2;
+
+function toUnixNano(ms: number): string {
+  return String(BigInt(Math.round(ms * 1000)) * 1000n);
+}
+
+function toOtlpValue(value: string | number | boolean) {
+  switch (typeof value) {
+    case "string":
+      return { stringValue: value };
+    case "boolean":
+      return { boolValue: value };
+    default:
+      return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector with OTLP/HTTP, JSON-encoded.
+ * Spans are buffered until {@link OtlpHttpSpanExporter.flush} is called.
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  #buffered: Span[] = [];
+  readonly #requests = new Set<Promise<void>>();
+
+  /**
+   * @param url The collector's traces endpoint, usually ending in `/v1/traces`.
+   * @param serviceName The `service.name` resource attribute of the spans.
+   */
+  constructor(
+    readonly url: string,
+    readonly serviceName: string,
+    readonly scopeVersion?: string,
+  ) {}
+
+  export(span: Span): void {
+    this.#buffered.push(span);
+  }
+
+  /**
+   * Sends the buffered spans. Resolves once they're sent; failures are logged
+   * rather than thrown.
+   */
+  flush(): Promise<void> {
+    const spans = this.#buffered;
+    if (spans.length === 0) {
+      return Promise.resolve();
+    }
+    this.#buffered = [];
+    const request = this.#send(spans).finally(() => this.#requests.delete(request));
+    this.#requests.add(request);
+    return request;
+  }
+
+  /** Sends the buffered spans and waits for every request in flight. */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await Promise.all(this.#requests);
+  }
+
+  async #send(spans: Span[]): Promise<void> {
+    const body = {
+      resourceSpans: [{
+        resource: {
+          attributes: toOtlpAttributes({ "service.name": this.serviceName }),
+        },
+        scopeSpans: [{
+          scope: { name: "@streak-glue/runtime", version: this.scopeVersion },
+          spans: spans.map((span) => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            parentSpanId: span.parentSpanId,
+            name: span.name,
+            kind: OTLP_SPAN_KINDS[span.kind],
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+            attributes: toOtlpAttributes(span.attributes),
+            status: span.errorMessage === undefined
+              ? {}
+              : { code: OTLP_STATUS_ERROR, message: span.errorMessage },
+          })),
+        }],
+      }],
+    };
+    try {
+      const res = await fetch(this.url, {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json" },
+      });
+      await res.body?.cancel();
+      if (!res.ok) {
+        throw new Error(`${res.status} ${res.statusText}`);
+      }
+    } catch (e) {
+      console.error(`Failed to export ${spans.length} spans:`, e);
+    }
+  }
+}
+
+/**
+ * Tracing utilities for instrumenting handlers. Spans are exported when the
+ * `OTEL_EXPORTER_OTLP_ENDPOINT` or `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`
+ * environment variable points at an OpenTelemetry collector.
+ *
+ * @example
+ * ```typescript
+ * glue.webhook.onPost(async (event) => {
+ *   const rows = await glue.trace.span("parse rows", (span) => {
+ *     const rows = parseCsv(event.bodyText!);
+ *     span.setAttribute("rows", rows.length);
+ *     return rows;
+ *   });
+ * });
+ * ```
+ */
+export class Trace {
+  /**
+   * Runs `fn` in a span named `name`, nested in the span of the current
+   * invocation. The span records how long `fn` took and whether it threw.
+   */
+  span<T>(name: string, fn: (span: Span) => T | Promise<T>): Promise<T> {
+    return withSpan(name, fn);
+  }
+}
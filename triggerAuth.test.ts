@@ -0,0 +1,190 @@
+import { assertEquals } from "@std/assert";
+import {
+  MAX_TIMESTAMP_SKEW_MS,
+  SIGNATURE_HEADER,
+  signTriggerRequest,
+  TIMESTAMP_HEADER,
+  TriggerRequestVerifier,
+} from "./triggerAuth.ts";
+import { glue } from "./mod.ts";
+import { shutdown } from "./runtimeSupport.ts";
+
+const KEY = "test-signing-key";
+const NOW = 1_750_000_000_000;
+const BODY = JSON.stringify({ type: "webhook", label: "0", data: {} });
+
+Deno.test("TriggerRequestVerifier accepts correctly signed requests", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  const signature = await signTriggerRequest(KEY, NOW, BODY);
+  assertEquals(await verifier.verify(BODY, String(NOW), signature), undefined);
+});
+
+Deno.test("TriggerRequestVerifier rejects unsigned requests", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  assertEquals(await verifier.verify(BODY, undefined, undefined), "Missing request signature");
+  assertEquals(await verifier.verify(BODY, String(NOW), undefined), "Missing request signature");
+});
+
+Deno.test("TriggerRequestVerifier rejects requests signed with another key", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  const signature = await signTriggerRequest("other-key", NOW, BODY);
+  assertEquals(await verifier.verify(BODY, String(NOW), signature), "Invalid request signature");
+});
+
+Deno.test("TriggerRequestVerifier rejects modified bodies", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  const signature = await signTriggerRequest(KEY, NOW, BODY);
+  assertEquals(
+    await verifier.verify(BODY.replace("webhook", "cron"), String(NOW), signature),
+    "Invalid request signature",
+  );
+});
+
+Deno.test("TriggerRequestVerifier rejects malformed signatures", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  assertEquals(await verifier.verify(BODY, String(NOW), "xyz"), "Invalid request signature");
+});
+
+Deno.test("TriggerRequestVerifier rejects stale requests", async () => {
+  const verifier = new TriggerRequestVerifier(KEY, () => NOW);
+  const sentAt = NOW - MAX_TIMESTAMP_SKEW_MS - 1;
+  const signature = await signTriggerRequest(KEY, sentAt, BODY);
+  assertEquals(
+    await verifier.verify(BODY, String(sentAt), signature),
+    "Request timestamp is too old or too far in the future",
+  );
+});
+
+Deno.test("TriggerRequestVerifier rejects replayed requests", async () => {
+  let now = NOW;
+  const verifier = new TriggerRequestVerifier(KEY, () => now);
+  const signature = await signTriggerRequest(KEY, NOW, BODY);
+  assertEquals(await verifier.verify(BODY, String(NOW), signature), undefined);
+  now += 1000;
+  assertEquals(
+    await verifier.verify(BODY, String(NOW), signature.toUpperCase()),
+    "Request has already been received",
+  );
+});
+
+Deno.test({
+  name: "routes reject requests that aren't signed by glue-backend",
+  // The server started by the registration below is stopped by `shutdown`.
+  sanitizeOps: false,
+  sanitizeResources: false,
+  fn: async (t) => {
+    const names = ["GLUE_DEV_PORT", "GLUE_TRIGGER_SIGNING_KEY"];
+    const previous = names.map((name) => [name, Deno.env.get(name)] as const);
+    const port = await getFreePort();
+    Deno.env.set("GLUE_DEV_PORT", String(port));
+    Deno.env.set("GLUE_TRIGGER_SIGNING_KEY", KEY);
+    try {
+      let callCount = 0;
+      glue.debug.registerRawTrigger("signed", () => {
+        callCount++;
+      }, { label: "signed" });
+      // The server starts once the registrations are done.
+      await Promise.resolve();
+
+      const body = JSON.stringify({ type: "signed", label: "signed", data: {} });
+      const post = async (path: string, body: string, headers: Record<string, string>) => {
+        const response = await fetch(`http://127.0.0.1:${port}/__glue__/${path}`, {
+          method: "POST",
+          body,
+          headers: { "Content-Type": "application/json", ...headers },
+        });
+        return { status: response.status, body: await response.json() };
+      };
+      const signedHeaders = async (body: string, timestamp = Date.now()) => ({
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: await signTriggerRequest(KEY, timestamp, body),
+      });
+
+      let validHeaders: Record<string, string> = {};
+      await t.step("valid signature", async () => {
+        validHeaders = await signedHeaders(body);
+        assertEquals((await post("triggerEvent", body, validHeaders)).status, 200);
+        assertEquals(callCount, 1);
+      });
+
+      await t.step("replayed signature", async () => {
+        assertEquals(await post("triggerEvent", body, validHeaders), {
+          status: 401,
+          body: { error: "Request has already been received" },
+        });
+        assertEquals(callCount, 1);
+      });
+
+      await t.step("missing signature", async () => {
+        assertEquals(await post("triggerEvent", body, {}), {
+          status: 401,
+          body: { error: "Missing request signature" },
+        });
+        assertEquals(callCount, 1);
+      });
+
+      await t.step("stale timestamp", async () => {
+        const headers = await signedHeaders(body, Date.now() - MAX_TIMESTAMP_SKEW_MS - 1000);
+        assertEquals(await post("triggerEvent", body, headers), {
+          status: 401,
+          body: { error: "Request timestamp is too old or too far in the future" },
+        });
+        assertEquals(callCount, 1);
+      });
+
+      await t.step("triggerEventBatch and pauseTrigger", async () => {
+        const batchBody = `[${body}]`;
+        assertEquals((await post("triggerEventBatch", batchBody, {})).status, 401);
+        assertEquals(callCount, 1);
+        assertEquals(
+          (await post("triggerEventBatch", batchBody, await signedHeaders(batchBody))).status,
+          200,
+        );
+        assertEquals(callCount, 2);
+
+        const pauseBody = JSON.stringify({ label: "signed" });
+        assertEquals((await post("pauseTrigger", pauseBody, {})).status, 401);
+        assertEquals(glue.triggers.getPauseStatus("signed"), undefined);
+        assertEquals(
+          (await post("pauseTrigger", pauseBody, await signedHeaders(pauseBody))).status,
+          200,
+        );
+        assertEquals(glue.triggers.getPauseStatus("signed")?.mode, "drop");
+      });
+
+      await t.step("info and metrics", async () => {
+        // Distinct timestamps keep the two signatures of empty bodies apart.
+        const timestamp = Date.now();
+        for (const [i, path] of ["info", "metrics"].entries()) {
+          const get = (headers: Record<string, string>) =>
+            fetch(`http://127.0.0.1:${port}/__glue__/${path}`, { headers });
+          const unsigned = await get({});
+          assertEquals(unsigned.status, 401);
+          assertEquals(await unsigned.json(), { error: "Missing request signature" });
+          const signed = await get(await signedHeaders("", timestamp - i));
+          assertEquals(signed.status, 200);
+          await signed.body?.cancel();
+        }
+      });
+    } finally {
+      await shutdown(1000);
+      for (const [name, value] of previous) {
+        if (value === undefined) {
+          Deno.env.delete(name);
+        } else {
+          Deno.env.set(name, value);
+        }
+      }
+    }
+  },
+});
+
+async function getFreePort(): Promise<number> {
+  const server = Deno.serve({
+    hostname: "127.0.0.1",
+    port: 0,
+    handler: () => Response.error(),
+  });
+  await server.shutdown();
+  return server.addr.port;
+}
@@ -0,0 +1,130 @@
+/**
+ * Verification of the signature glue-backend attaches to requests it sends to
+ * the runtime's internal HTTP API.
+ *
+ * glue-backend signs each request with a key provisioned for the deployment
+ * (exposed to the runtime as the `GLUE_TRIGGER_SIGNING_KEY` environment
+ * variable). The signature is a hex-encoded HMAC-SHA256 over
+ * `${timestamp}.${body}`, where `timestamp` is the number of milliseconds since
+ * the epoch at which the request was sent.
+ *
+ * @module
+ */
+
+/** Header containing the hex-encoded request signature. */
+export const SIGNATURE_HEADER = "X-Glue-Signature";
+/** Header containing the time the request was signed, in ms since the epoch. */
+export const TIMESTAMP_HEADER = "X-Glue-Timestamp";
+
+/**
+ * How far a request's timestamp may be from the current time before the
+ * request is rejected as stale.
+ */
+export const MAX_TIMESTAMP_SKEW_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function importKey(key: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+}
+
+/**
+ * Computes the signature for a request body sent at `timestamp`. This is what
+ * glue-backend sends in the {@link SIGNATURE_HEADER} header.
+ */
+export async function signTriggerRequest(
+  key: string,
+  timestamp: number,
+  body: string,
+): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(key, "sign"),
+    encoder.encode(`${timestamp}.${body}`),
+  );
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function decodeHex(hex: string): Uint8Array<ArrayBuffer> | undefined {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Verifies signed requests from glue-backend, rejecting requests that are
+ * unsigned, incorrectly signed, stale, or that have already been seen.
+ */
+export class TriggerRequestVerifier {
+  readonly #key: Promise<CryptoKey>;
+  readonly #now: () => number;
+  /** Signatures already accepted, mapped to when they can be forgotten. */
+  readonly #seenSignatures = new Map<string, number>();
+
+  constructor(key: string, now: () => number = Date.now) {
+    this.#key = importKey(key, "verify");
+    this.#now = now;
+  }
+
+  /**
+   * Checks a request's signature.
+   *
+   * @returns `undefined` if the request is valid, otherwise a description of
+   * why it was rejected.
+   */
+  async verify(
+    body: string,
+    timestampHeader: string | undefined,
+    signatureHeader: string | undefined,
+  ): Promise<string | undefined> {
+    if (!timestampHeader || !signatureHeader) {
+      return "Missing request signature";
+    }
+    const timestamp = Number(timestampHeader);
+    if (!Number.isSafeInteger(timestamp)) {
+      return "Invalid request timestamp";
+    }
+    const now = this.#now();
+    if (Math.abs(now - timestamp) > MAX_TIMESTAMP_SKEW_MS) {
+      return "Request timestamp is too old or too far in the future";
+    }
+    const signature = decodeHex(signatureHeader);
+    if (!signature) {
+      return "Invalid request signature";
+    }
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await this.#key,
+      signature,
+      encoder.encode(`${timestamp}.${body}`),
+    );
+    if (!valid) {
+      return "Invalid request signature";
+    }
+
+    for (const [seenSignature, expiresAt] of this.#seenSignatures) {
+      if (expiresAt < now) {
+        this.#seenSignatures.delete(seenSignature);
+      }
+    }
+    const normalizedSignature = signatureHeader.toLowerCase();
+    if (this.#seenSignatures.has(normalizedSignature)) {
+      return "Request has already been received";
+    }
+    // Anything older than this is rejected as stale, so there's no need to
+    // remember the signature past that point.
+    this.#seenSignatures.set(normalizedSignature, timestamp + MAX_TIMESTAMP_SKEW_MS);
+    return undefined;
+  }
+}
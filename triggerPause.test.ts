@@ -0,0 +1,29 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { TriggerPause } from "./triggerPause.ts";
+
+Deno.test("TriggerPause drops events in drop mode", () => {
+  const pause = new TriggerPause<string>("drop", 10, () => 123);
+  assertEquals(pause.hold("a"), false);
+  assertEquals(pause.takeBuffered(), []);
+  assertEquals(pause.status, { mode: "drop", since: 123, bufferedEvents: 0, droppedEvents: 1 });
+});
+
+Deno.test("TriggerPause buffers events up to the limit", () => {
+  const pause = new TriggerPause<string>("buffer", 2, () => 0);
+  assertEquals(pause.hold("a"), true);
+  assertEquals(pause.hold("b"), true);
+  assertEquals(pause.hold("c"), false);
+  assertEquals(pause.status, { mode: "buffer", since: 0, bufferedEvents: 2, droppedEvents: 1 });
+  assertEquals(pause.takeBuffered(), ["a", "b"]);
+  assertEquals(pause.status.bufferedEvents, 0);
+});
+
+Deno.test("TriggerPause keeps buffered events when updated", () => {
+  const pause = new TriggerPause<string>("buffer", 2);
+  pause.hold("a");
+  pause.update("drop", 2);
+  assertEquals(pause.hold("b"), false);
+  assertEquals(pause.takeBuffered(), ["a"]);
+  assertThrows(() => pause.update("buffer", -1), Error, "Invalid maxBufferedEvents -1");
+  assertThrows(() => new TriggerPause("buffer", 1.5), Error, "Invalid maxBufferedEvents 1.5");
+});
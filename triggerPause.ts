@@ -0,0 +1,60 @@
+import type { TriggerPauseMode, TriggerPauseStatus } from "./backendTypes.ts";
+
+/** How many events a paused trigger buffers when `maxBufferedEvents` isn't set. */
+export const DEFAULT_MAX_BUFFERED_EVENTS = 1000;
+
+/**
+ * Holds back the events of one paused trigger. Events are either dropped or
+ * buffered, up to a limit, to be run once the trigger is resumed.
+ */
+export class TriggerPause<T> {
+  /** When the trigger was paused, in milliseconds since the epoch. */
+  readonly since: number;
+  #mode: TriggerPauseMode = "drop";
+  #maxBufferedEvents = 0;
+  readonly #buffered: T[] = [];
+  #droppedEvents = 0;
+
+  constructor(mode: TriggerPauseMode, maxBufferedEvents: number, now: () => number = Date.now) {
+    this.update(mode, maxBufferedEvents);
+    this.since = now();
+  }
+
+  /** Changes how new events are held. Events already buffered are kept. */
+  update(mode: TriggerPauseMode, maxBufferedEvents: number): void {
+    if (!(Number.isInteger(maxBufferedEvents) && maxBufferedEvents >= 0)) {
+      throw new Error(
+        `Invalid maxBufferedEvents ${maxBufferedEvents}. It must be a non-negative integer.`,
+      );
+    }
+    this.#mode = mode;
+    this.#maxBufferedEvents = maxBufferedEvents;
+  }
+
+  /**
+   * Buffers the event if the trigger buffers events and the buffer isn't full,
+   * and drops it otherwise. Returns whether it was buffered.
+   */
+  hold(event: T): boolean {
+    if (this.#mode === "buffer" && this.#buffered.length < this.#maxBufferedEvents) {
+      this.#buffered.push(event);
+      return true;
+    }
+    this.#droppedEvents++;
+    return false;
+  }
+
+  /** Removes and returns the buffered events, oldest first. */
+  takeBuffered(): T[] {
+    return this.#buffered.splice(0);
+  }
+
+  get status(): TriggerPauseStatus {
+    return {
+      mode: this.#mode,
+      since: this.since,
+      bufferedEvents: this.#buffered.length,
+      droppedEvents: this.#droppedEvents,
+    };
+  }
+}
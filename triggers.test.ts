@@ -0,0 +1,73 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { createTestHarness } from "./testing.ts";
+import { glue } from "./mod.ts";
+import { getRegistrations } from "./runtimeSupport.ts";
+
+const received: string[] = [];
+const receivedAtById = new Map<string, number>();
+let allReceived = Promise.withResolvers<void>();
+glue.debug.registerRawTrigger("noisy", (event, ctx) => {
+  const { id } = event as { id: string };
+  received.push(id);
+  receivedAtById.set(id, ctx.receivedAt);
+  if (received.length === 3) {
+    allReceived.resolve();
+  }
+}, { label: "noisy" });
+
+const harness = createTestHarness();
+
+Deno.test("paused triggers drop events", async () => {
+  glue.triggers.pause("noisy");
+  const { logs, error } = await harness.fire("noisy", "noisy", { id: "dropped" });
+  assertEquals(error, undefined);
+  assertEquals(logs.map((log) => log.text), [
+    "Dropped noisy event because trigger noisy is paused\n",
+  ]);
+  assertEquals(glue.triggers.getPauseStatus("noisy")?.droppedEvents, 1);
+  assertEquals(glue.triggers.resume("noisy"), 0);
+  assertEquals(glue.triggers.getPauseStatus("noisy"), undefined);
+  assertEquals(received, []);
+});
+
+Deno.test("paused triggers buffer events to run once resumed", async () => {
+  const status = glue.triggers.pause("noisy", { mode: "buffer", maxBufferedEvents: 2 });
+  assertEquals(status, {
+    mode: "buffer",
+    since: status.since,
+    bufferedEvents: 0,
+    droppedEvents: 0,
+  });
+  for (const id of ["a", "b", "c"]) {
+    await harness.fire("noisy", "noisy", { id });
+  }
+  assertEquals(getRegistrations().triggers.find((trigger) => trigger.label === "noisy")?.paused, {
+    mode: "buffer",
+    since: status.since,
+    bufferedEvents: 2,
+    droppedEvents: 1,
+  });
+  assertEquals(received, []);
+
+  allReceived = Promise.withResolvers();
+  const resumedAt = Date.now();
+  assertEquals(glue.triggers.resume("noisy"), 2);
+  assertEquals(
+    getRegistrations().triggers.find((trigger) => trigger.label === "noisy")?.paused,
+    undefined,
+  );
+  await harness.fire("noisy", "noisy", { id: "d" });
+  await allReceived.promise;
+  assertEquals(received.toSorted(), ["a", "b", "d"]);
+  // Replayed events keep the time they first arrived.
+  assertEquals(receivedAtById.get("a")! <= resumedAt, true);
+  assertEquals(receivedAtById.get("d")! >= resumedAt, true);
+});
+
+Deno.test("pausing an unknown label throws", () => {
+  assertThrows(
+    () => glue.triggers.pause("missing"),
+    Error,
+    'No trigger is registered with label "missing"',
+  );
+});
@@ -0,0 +1,91 @@
+import type { TriggerPauseMode, TriggerPauseStatus } from "./backendTypes.ts";
+import { getTriggerPauseStatus, pauseTrigger, resumeTrigger } from "./runtimeSupport.ts";
+
+export type { TriggerPauseMode, TriggerPauseStatus } from "./backendTypes.ts";
+
+/** Options for {@link Triggers.pause}. */
+export interface PauseTriggerOptions {
+  /**
+   * What happens to the trigger's events while it's paused: `"drop"` discards
+   * them, and `"buffer"` keeps them to run once the trigger is resumed.
+   *
+   * @default "drop"
+   */
+  mode?: TriggerPauseMode;
+  /**
+   * How many events to buffer in `"buffer"` mode. Events beyond this are
+   * dropped.
+   *
+   * @default 1000
+   */
+  maxBufferedEvents?: number;
+}
+
+/** Options for {@link Triggers.resume}. */
+export interface ResumeTriggerOptions {
+  /**
+   * Discard the events buffered while the trigger was paused rather than
+   * running them.
+   */
+  discardBuffered?: boolean;
+}
+
+/**
+ * Utilities for pausing and resuming triggers while the Glue is running, such
+ * as to stop a noisy trigger during an incident without redeploying. Triggers
+ * are identified by their label, so give the triggers you may want to pause a
+ * `label` when registering them.
+ *
+ * Pausing only lasts until the Glue is redeployed or restarted. glue-backend
+ * pauses and resumes triggers through the runtime's `/__glue__/pauseTrigger`
+ * and `/__glue__/resumeTrigger` routes.
+ *
+ * @example
+ * ```typescript
+ * glue.sheets.onNewRow(fileId, async (event) => {
+ *   // ...
+ * }, { label: "new-rows" });
+ *
+ * glue.webhook.onPost(async (event) => {
+ *   const { action } = JSON.parse(event.bodyText!);
+ *   if (action === "pause") {
+ *     glue.triggers.pause("new-rows", { mode: "buffer" });
+ *   } else if (action === "resume") {
+ *     glue.triggers.resume("new-rows");
+ *   }
+ * });
+ * ```
+ */
+export class Triggers {
+  /**
+   * Pauses the trigger with the given label, so that its handler doesn't run
+   * for new events until it is resumed. Pausing a paused trigger changes how
+   * it holds new events and keeps the events it already buffered.
+   *
+   * @throws If no trigger has the label.
+   */
+  pause(label: string, options?: PauseTriggerOptions): TriggerPauseStatus {
+    return pauseTrigger(label, options);
+  }
+
+  /**
+   * Resumes the trigger with the given label. Events buffered while it was
+   * paused run in the background, one at a time in the order they arrived.
+   * Returns how many buffered events are run.
+   *
+   * @throws If no trigger has the label.
+   */
+  resume(label: string, options?: ResumeTriggerOptions): number {
+    return resumeTrigger(label, options).replayedEvents;
+  }
+
+  /**
+   * Returns the state of the trigger with the given label if it is paused, or
+   * `undefined` if it isn't.
+   *
+   * @throws If no trigger has the label.
+   */
+  getPauseStatus(label: string): TriggerPauseStatus | undefined {
+    return getTriggerPauseStatus(label);
+  }
+}